@@ -1,28 +1,130 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import SetupView from './components/SetupView';
 import Dashboard from './components/Dashboard';
-import { AppState, CpuLogEntry } from './types';
+import ComparisonView from './components/ComparisonView';
+import { AppState, CaptureSession, ComparedDataset, CpuLogEntry, DatasetSource } from './types';
+import { createSession, getSession, loadSessionData } from './services/sessionService';
+import { DashboardLinkState, decodeLinkData, readLinkState, writeLinkState } from './utils/urlState';
+import { processSamples } from './utils/threads';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.SETUP);
   const [data, setData] = useState<CpuLogEntry[]>([]);
+  const [livePid, setLivePid] = useState<number | undefined>(undefined);
+  const [session, setSession] = useState<CaptureSession | null>(null);
+  const [comparison, setComparison] = useState<[ComparedDataset, ComparedDataset] | null>(null);
+  const loadIdRef = useRef(0); // Ignores sessions stored for a dataset that is no longer open
 
-  const handleDataLoaded = (loadedData: CpuLogEntry[]) => {
+  // The dashboard opens right away; the session is attached once IndexedDB has stored it
+  const storeSession = (...args: Parameters<typeof createSession>) => {
+    const loadId = ++loadIdRef.current;
+    createSession(...args)
+      .then(created => loadId === loadIdRef.current && setSession(created))
+      .catch(e => console.error("Failed to save session", e));
+  };
+
+  const handleDataLoaded = (loadedData: CpuLogEntry[], source: DatasetSource) => {
     setData(loadedData);
+    setLivePid(undefined);
+    setSession(null);
     setState(AppState.DASHBOARD);
+    storeSession(source.name, loadedData, { tags: source.tags });
+  };
+
+  const handleStartLive = (pid: number) => {
+    setData([]);
+    setLivePid(pid);
+    setSession(null);
+    setState(AppState.DASHBOARD);
+    // Samples come from the collector running alongside the dev server
+    storeSession(`Live PID ${pid}`, [], { pid, host: window.location.hostname, tags: ['live'] });
+  };
+
+  const handleOpenSession = async (saved: CaptureSession) => {
+    loadIdRef.current++;
+    try {
+      setData(await loadSessionData(saved.id));
+      setLivePid(undefined);
+      setSession(saved);
+      setState(AppState.DASHBOARD);
+    } catch (e) {
+      console.error("Failed to open session", e);
+      alert(`Could not open "${saved.name}".`);
+    }
+  };
+
+  const handleCompareSessions = async (baseline: CaptureSession, candidate: CaptureSession) => {
+    try {
+      const [before, after] = await Promise.all([loadSessionData(baseline.id), loadSessionData(candidate.id)]);
+      // Comparisons are of process-level CPU; thread samples would be counted as extra process samples
+      setComparison([{ name: baseline.name, data: processSamples(before) }, { name: candidate.name, data: processSamples(after) }]);
+      setState(AppState.COMPARE);
+    } catch (e) {
+      console.error("Failed to load sessions for comparison", e);
+      alert("Could not load the selected sessions.");
+    }
   };
 
+  // A link names a session from this browser's library or carries the samples itself
+  const openLink = async (link: DashboardLinkState) => {
+    const linked = link.sessionId ? await getSession(link.sessionId) : null;
+    if (linked) return handleOpenSession(linked);
+    if (link.data) {
+      const shared = await decodeLinkData(link.data);
+      if (shared.length === 0) throw new Error("Link data contains no samples");
+      return handleDataLoaded(shared, { name: 'Shared link', tags: ['shared'] });
+    }
+    writeLinkState({}, 'replace');
+    if (link.sessionId) alert("The linked session isn't in this browser's library.");
+  };
+
+  useEffect(() => {
+    openLink(readLinkState()).catch(e => {
+      console.error("Failed to open link", e);
+      writeLinkState({}, 'replace');
+      alert("Could not open the data in this link.");
+    });
+  }, []);
+
+  // Going back from the setup screen reopens the dashboard view in that history entry
+  useEffect(() => {
+    if (state !== AppState.SETUP) return;
+    const handlePopState = () => {
+      const link = readLinkState();
+      if (link.sessionId) openLink(link).catch(e => console.error("Failed to reopen session", e));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [state]);
+
   const handleReset = () => {
+    writeLinkState({}, 'push');
+    loadIdRef.current++;
     setData([]);
+    setLivePid(undefined);
+    setSession(null);
+    setComparison(null);
     setState(AppState.SETUP);
   };
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 selection:bg-blue-500/30">
       {state === AppState.SETUP ? (
-        <SetupView onDataLoaded={handleDataLoaded} />
+        <SetupView
+          onDataLoaded={handleDataLoaded}
+          onStartLive={handleStartLive}
+          onOpenSession={handleOpenSession}
+          onCompareSessions={handleCompareSessions}
+        />
+      ) : state === AppState.COMPARE && comparison ? (
+        <ComparisonView
+          baseline={comparison[0]}
+          candidate={comparison[1]}
+          onSwap={() => setComparison([comparison[1], comparison[0]])}
+          onBack={handleReset}
+        />
       ) : (
-        <Dashboard data={data} onReset={handleReset} />
+        <Dashboard data={data} livePid={livePid} session={session} onReset={handleReset} />
       )}
     </div>
   );
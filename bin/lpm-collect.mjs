@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript collector directly so it always shares the app's CpuLogEntry type.
+// tsx is a runtime dependency for this reason, so production installs can run it too.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../collector/cli.ts');
@@ -0,0 +1,106 @@
+import { createWriteStream } from 'fs';
+import { parseArgs } from 'util';
+import { watchProcess } from './sampler';
+import { USAGE } from './usage';
+
+interface CollectOptions {
+  pid: number;
+  intervalSec: number;
+  durationSec: number | null;
+  out: string | null;
+  append: boolean;
+  threads: boolean;
+  tree: boolean;
+}
+
+const fail = (message: string): never => {
+  console.error(`lpm-collect: ${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const parseOptions = (argv: string[]): CollectOptions => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      interval: { type: 'string', short: 'i', default: '1' },
+      duration: { type: 'string', short: 'd' },
+      out: { type: 'string', short: 'o' },
+      append: { type: 'boolean', short: 'a' },
+      threads: { type: 'boolean', short: 't' },
+      tree: { type: 'boolean', short: 'T' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const pid = Number(positionals[0]);
+  if (positionals.length !== 1 || !Number.isInteger(pid) || pid <= 0) fail('expected a single numeric PID');
+
+  const intervalSec = Number(values.interval);
+  if (!(intervalSec >= 0.1)) fail('--interval must be a number of seconds >= 0.1');
+
+  let durationSec: number | null = null;
+  if (values.duration !== undefined) {
+    durationSec = Number(values.duration);
+    if (!(durationSec > 0)) fail('--duration must be a positive number of seconds');
+  }
+
+  if (values.threads && values.tree) fail('--threads and --tree cannot be combined');
+  if (values.append && values.out === undefined) fail('--append needs --out');
+
+  return { pid, intervalSec, durationSec, out: values.out ?? null, append: values.append ?? false, threads: values.threads ?? false, tree: values.tree ?? false };
+};
+
+const main = () => {
+  const { pid, intervalSec, durationSec, out, append, threads, tree } = parseOptions(process.argv.slice(2));
+  // Appending is opt-in: a second run in the same file would read as one capture with a long gap
+  const output = out ? createWriteStream(out, { flags: append ? 'a' : 'w' }) : process.stdout;
+  let samples = 0;
+  let finished = false;
+
+  const finish = (code: number) => {
+    if (finished) return;
+    finished = true;
+    stop();
+    if (durationTimer) clearTimeout(durationTimer);
+    console.error(`lpm-collect: wrote ${samples} sample${samples === 1 ? '' : 's'}${out ? ` to ${out}` : ''}`);
+    if (output === process.stdout) {
+      process.exit(code);
+    } else {
+      output.end(() => process.exit(code));
+    }
+  };
+
+  // Progress goes to stderr so stdout stays valid JSONL
+  console.error(`lpm-collect: monitoring PID ${pid}${threads ? ' and its threads' : ''}${tree ? ' and its descendants' : ''} every ${intervalSec}s${durationSec ? ` for ${durationSec}s` : ''}`);
+
+  const stop = watchProcess(pid, {
+    intervalMs: intervalSec * 1000,
+    threads,
+    tree,
+    onEntry: (entry) => {
+      output.write(JSON.stringify(entry) + '\n');
+      if (entry.tid === undefined && entry.tree_root === undefined) samples++;
+    },
+    onExit: (reason) => {
+      if (reason === 'not-found') {
+        console.error(`lpm-collect: process ${pid} not found`);
+        finish(1);
+      } else {
+        console.error(`lpm-collect: process ${pid} exited`);
+        finish(0);
+      }
+    },
+  });
+
+  const durationTimer = durationSec ? setTimeout(() => finish(0), durationSec * 1000) : null;
+  process.on('SIGINT', () => finish(0));
+  process.on('SIGTERM', () => finish(0));
+};
+
+main();
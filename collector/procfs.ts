@@ -0,0 +1,210 @@
+import { readdir, readFile } from 'fs/promises';
+import { execFileSync } from 'child_process';
+import { CpuLogEntry } from '../types';
+
+export interface ProcStat {
+  comm: string;
+  ppid: number;
+  minflt: number;
+  majflt: number;
+  utime: number; // clock ticks
+  stime: number; // clock ticks
+  cutime: number; // clock ticks of exited children this process has waited for
+  cstime: number;
+  numThreads: number;
+  starttime: number; // clock ticks since boot, used to detect PID reuse
+}
+
+export interface ProcStatus {
+  rssBytes: number;
+  voluntaryCtxtSwitches: number;
+  nonvoluntaryCtxtSwitches: number;
+}
+
+export interface ProcIo {
+  readBytes: number; // bytes fetched from storage, not counting page cache hits
+  writeBytes: number;
+}
+
+// Linux exposes CLK_TCK only through sysconf; `getconf` is the portable way to reach it from Node.
+export const getClockTicks = (): number => {
+  try {
+    const value = parseInt(execFileSync('getconf', ['CLK_TCK'], { encoding: 'utf8' }).trim(), 10);
+    return value > 0 ? value : 100;
+  } catch {
+    return 100;
+  }
+};
+
+export const readUptimeSeconds = async (): Promise<number | null> => {
+  try {
+    return parseFloat((await readFile('/proc/uptime', 'utf8')).split(' ')[0]);
+  } catch {
+    return null;
+  }
+};
+
+export interface HostCpuTimes {
+  busy: number; // clock ticks summed over all CPUs
+  total: number;
+}
+
+// Online CPUs, e.g. "0-3,6" in /sys. Falls back to the per-CPU lines of /proc/stat.
+export const readOnlineCpuCount = async (): Promise<number | null> => {
+  try {
+    const ranges = (await readFile('/sys/devices/system/cpu/online', 'utf8')).trim().split(',');
+    return ranges.reduce((count, range) => {
+      const [first, last] = range.split('-').map(Number);
+      return count + (last === undefined ? 1 : last - first + 1);
+    }, 0);
+  } catch {
+    try {
+      return (await readFile('/proc/stat', 'utf8')).match(/^cpu\d+ /gm)?.length ?? null;
+    } catch {
+      return null;
+    }
+  }
+};
+
+// The aggregate "cpu" line of /proc/stat. Guest time is already part of user time, so only the
+// first eight columns are summed; idle and iowait count as not busy.
+export const readHostCpuTimes = async (): Promise<HostCpuTimes | null> => {
+  try {
+    const line = (await readFile('/proc/stat', 'utf8')).split('\n').find(l => l.startsWith('cpu '));
+    if (!line) return null;
+    const [user, nice, system, idle, iowait, irq, softirq, steal] = line.trim().split(/\s+/).slice(1, 9).map(v => parseInt(v, 10) || 0);
+    const busy = user + nice + system + irq + softirq + steal;
+    return { busy, total: busy + idle + iowait };
+  } catch {
+    return null;
+  }
+};
+
+// Returns a function that reports the host's CPU count and busy percent (0-100 of the whole
+// machine) since its previous call, or nothing when /proc/stat can't be read.
+export const createHostCpuReader = async () => {
+  let last = await readHostCpuTimes();
+  return async (): Promise<Pick<CpuLogEntry, 'cpu_count' | 'host_cpu_percent'>> => {
+    const [cpuCount, curr] = await Promise.all([readOnlineCpuCount(), readHostCpuTimes()]);
+    const prev = last;
+    last = curr ?? last;
+    const host: Pick<CpuLogEntry, 'cpu_count' | 'host_cpu_percent'> = {};
+    if (cpuCount) host.cpu_count = cpuCount;
+    if (prev && curr && curr.total > prev.total) {
+      host.host_cpu_percent = Math.round(((curr.busy - prev.busy) / (curr.total - prev.total)) * 10000) / 100;
+    }
+    return host;
+  };
+};
+
+export const readTotalMemoryBytes = async (): Promise<number | null> => {
+  try {
+    const content = await readFile('/proc/meminfo', 'utf8');
+    const match = content.match(/^MemTotal:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1], 10) * 1024 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns null when the process no longer exists (or /proc is unavailable).
+// `path` lets the same parser read a thread's /proc/<pid>/task/<tid>/stat.
+export const readProcStat = async (pid: number, path = `/proc/${pid}/stat`): Promise<ProcStat | null> => {
+  try {
+    const content = await readFile(path, 'utf8');
+    // The command name is wrapped in parentheses and may itself contain spaces or ')'
+    const lPar = content.indexOf('(');
+    const rPar = content.lastIndexOf(')');
+    if (lPar === -1 || rPar === -1) return null;
+
+    // Fields after the name, 0-based: 0 = state (field 3 in proc(5)), 1 = ppid, 7 = minflt, 9 = majflt,
+    // 11 = utime, 12 = stime, 13 = cutime, 14 = cstime, 17 = num_threads, 19 = starttime
+    const fields = content.slice(rPar + 2).split(' ');
+    return {
+      comm: content.slice(lPar + 1, rPar),
+      ppid: parseInt(fields[1], 10),
+      minflt: parseInt(fields[7], 10),
+      majflt: parseInt(fields[9], 10),
+      utime: parseInt(fields[11], 10),
+      stime: parseInt(fields[12], 10),
+      cutime: parseInt(fields[13], 10),
+      cstime: parseInt(fields[14], 10),
+      numThreads: parseInt(fields[17], 10),
+      starttime: parseInt(fields[19], 10),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Value of a "name: number" line, as in /proc/<pid>/status and /proc/<pid>/io
+const readKeyedValue = (content: string, name: string) => {
+  const match = content.match(new RegExp(`^${name}:\\s+(\\d+)`, 'm'));
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+export const readProcStatus = async (pid: number): Promise<ProcStatus | null> => {
+  try {
+    const content = await readFile(`/proc/${pid}/status`, 'utf8');
+    return {
+      // Kernel threads have no VmRSS line
+      rssBytes: readKeyedValue(content, 'VmRSS') * 1024,
+      voluntaryCtxtSwitches: readKeyedValue(content, 'voluntary_ctxt_switches'),
+      nonvoluntaryCtxtSwitches: readKeyedValue(content, 'nonvoluntary_ctxt_switches'),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// /proc/<pid>/io and /proc/<pid>/fd are only readable for our own processes (or as root),
+// so these return null when access is denied rather than failing the sample.
+export const readProcIo = async (pid: number): Promise<ProcIo | null> => {
+  try {
+    const content = await readFile(`/proc/${pid}/io`, 'utf8');
+    return {
+      readBytes: readKeyedValue(content, 'read_bytes'),
+      writeBytes: readKeyedValue(content, 'write_bytes'),
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const countOpenFds = async (pid: number): Promise<number | null> => {
+  try {
+    return (await readdir(`/proc/${pid}/fd`)).length;
+  } catch {
+    return null;
+  }
+};
+
+export const readCommandLine = async (pid: number): Promise<string | null> => {
+  try {
+    const content = await readFile(`/proc/${pid}/cmdline`, 'utf8');
+    const cmd = content.split('\0').filter(Boolean).join(' ');
+    return cmd || null;
+  } catch {
+    return null;
+  }
+};
+
+export const listThreadIds = async (pid: number): Promise<number[]> => {
+  try {
+    return (await readdir(`/proc/${pid}/task`)).map(Number).filter(Number.isInteger);
+  } catch {
+    return [];
+  }
+};
+
+// A thread's stat has the same layout as its process's; comm is the thread name (e.g. set by pthread_setname_np)
+export const readThreadStat = (pid: number, tid: number) => readProcStat(tid, `/proc/${pid}/task/${tid}/stat`);
+
+// Every process on the host, keyed by PID. Processes that exit while being read are skipped.
+export const readAllProcStats = async (): Promise<Map<number, ProcStat>> => {
+  const pids = (await readdir('/proc')).filter(name => /^\d+$/.test(name)).map(Number);
+  const stats = await Promise.all(pids.map(pid => readProcStat(pid)));
+  const byPid = new Map<number, ProcStat>();
+  stats.forEach((stat, i) => stat && byPid.set(pids[i], stat));
+  return byPid;
+};
@@ -0,0 +1,159 @@
+import { CpuLogEntry, StreamExitInfo } from '../types';
+import { formatLocalTimestamp } from '../utils/time';
+import { countOpenFds, getClockTicks, listThreadIds, ProcStat, readCommandLine, readProcIo, readProcStat, readProcStatus, readThreadStat, readTotalMemoryBytes, createHostCpuReader } from './procfs';
+import { createTreeSampler } from './treeSampler';
+
+export interface ProcessSampler {
+  pid: number;
+  command: string;
+  // The process entry followed by one entry per busy thread or tree member (when enabled).
+  // Resolves to null once the process has exited (or its PID was reused).
+  sample: () => Promise<CpuLogEntry[] | null>;
+}
+
+export interface SamplerOptions {
+  threads?: boolean; // Also sample /proc/<pid>/task/*/stat
+}
+
+export type ExitReason = StreamExitInfo['reason'];
+
+export interface WatchOptions extends SamplerOptions {
+  tree?: boolean; // Aggregate the process and all its descendants instead
+  intervalMs: number;
+  onEntry: (entry: CpuLogEntry) => void;
+  onExit: (reason: ExitReason) => void;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const readThreadStats = async (pid: number): Promise<Map<number, ProcStat>> => {
+  const tids = await listThreadIds(pid);
+  const stats = await Promise.all(tids.map(tid => readThreadStat(pid, tid)));
+  const byTid = new Map<number, ProcStat>();
+  // Threads that exit between listing and reading come back as null
+  stats.forEach((stat, i) => stat && byTid.set(tids[i], stat));
+  return byTid;
+};
+
+export const createProcessSampler = async (pid: number, { threads = false }: SamplerOptions = {}): Promise<ProcessSampler | null> => {
+  const first = await readProcStat(pid);
+  if (!first) return null;
+
+  const clockTicks = getClockTicks();
+  const totalMem = (await readTotalMemoryBytes()) || 1; // Prevent division by zero
+  const readHostCpu = await createHostCpuReader();
+  const command = (await readCommandLine(pid)) || first.comm;
+
+  let last = first;
+  let lastStatus = await readProcStatus(pid);
+  let lastIo = await readProcIo(pid);
+  let lastThreads = threads ? await readThreadStats(pid) : new Map<number, ProcStat>();
+  let lastTime = performance.now();
+
+  const sample = async (): Promise<CpuLogEntry[] | null> => {
+    const curr = await readProcStat(pid);
+    if (!curr || curr.starttime !== first.starttime) return null;
+    const status = await readProcStatus(pid);
+    if (status === null || lastStatus === null) return null;
+    const io = await readProcIo(pid);
+    const fdCount = await countOpenFds(pid);
+    const currThreads = threads ? await readThreadStats(pid) : lastThreads;
+    const host = await readHostCpu();
+
+    const now = performance.now();
+    // Use the measured elapsed time rather than the nominal interval so timer drift doesn't skew percentages
+    const elapsedSec = Math.max((now - lastTime) / 1000, 1e-3);
+    const perSec = (current: number, previous: number) => round2(Math.max(0, current - previous) / elapsedSec);
+    const userPercent = ((curr.utime - last.utime) / clockTicks / elapsedSec) * 100;
+    const sysPercent = ((curr.stime - last.stime) / clockTicks / elapsedSec) * 100;
+
+    const timestamp = formatLocalTimestamp(new Date());
+    const entry: CpuLogEntry = {
+      timestamp,
+      pid,
+      ppid: curr.ppid,
+      ...host,
+      cpu_user_percent: round2(userPercent),
+      cpu_sys_percent: round2(sysPercent),
+      memory_percent: round2((status.rssBytes / totalMem) * 100),
+      command,
+      voluntary_ctx_switches_per_sec: perSec(status.voluntaryCtxtSwitches, lastStatus.voluntaryCtxtSwitches),
+      nonvoluntary_ctx_switches_per_sec: perSec(status.nonvoluntaryCtxtSwitches, lastStatus.nonvoluntaryCtxtSwitches),
+      minor_faults_per_sec: perSec(curr.minflt, last.minflt),
+      major_faults_per_sec: perSec(curr.majflt, last.majflt),
+      threads: curr.numThreads,
+      rss_bytes: status.rssBytes,
+    };
+    // Unreadable without ownership of the process; leave the fields out rather than report zeros
+    if (io && lastIo) {
+      entry.read_bytes_per_sec = perSec(io.readBytes, lastIo.readBytes);
+      entry.write_bytes_per_sec = perSec(io.writeBytes, lastIo.writeBytes);
+    }
+    if (fdCount !== null) entry.fd_count = fdCount;
+
+    // Idle threads are left out to keep thread pools from flooding the output; a thread needs
+    // two readings (with the same start time, as TIDs get reused) before it has a rate.
+    const threadEntries: CpuLogEntry[] = [];
+    if (threads) {
+      currThreads.forEach((thread, tid) => {
+        const prev = lastThreads.get(tid);
+        if (!prev || prev.starttime !== thread.starttime) return;
+        const user = ((thread.utime - prev.utime) / clockTicks / elapsedSec) * 100;
+        const sys = ((thread.stime - prev.stime) / clockTicks / elapsedSec) * 100;
+        if (user <= 0 && sys <= 0) return;
+        threadEntries.push({
+          timestamp,
+          pid,
+          tid,
+          thread_name: thread.comm,
+          cpu_user_percent: round2(user),
+          cpu_sys_percent: round2(sys),
+        });
+      });
+    }
+
+    last = curr;
+    lastStatus = status;
+    lastIo = io;
+    lastThreads = currThreads;
+    lastTime = now;
+    return [entry, ...threadEntries];
+  };
+
+  return { pid, command, sample };
+};
+
+// Samples `pid` every `intervalMs` until it exits or the returned stop function is called.
+export const watchProcess = (pid: number, { intervalMs, onEntry, onExit, threads, tree }: WatchOptions): (() => void) => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = async () => {
+    const sampler = tree ? await createTreeSampler(pid) : await createProcessSampler(pid, { threads });
+    if (stopped) return;
+    if (!sampler) {
+      onExit('not-found');
+      return;
+    }
+
+    const tick = async () => {
+      if (stopped) return;
+      const entries = await sampler.sample();
+      if (stopped) return;
+      if (!entries) {
+        onExit('exited');
+        return;
+      }
+      entries.forEach(onEntry);
+      timer = setTimeout(tick, intervalMs);
+    };
+    timer = setTimeout(tick, intervalMs);
+  };
+
+  run();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+};
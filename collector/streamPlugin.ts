@@ -0,0 +1,66 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import { watchProcess } from './sampler';
+
+export const STREAM_ENDPOINT = '/api/stream';
+
+const MIN_INTERVAL_MS = 100;
+
+const sendEvent = (res: ServerResponse, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Server-Sent Events endpoint: GET /api/stream?pid=<pid>&interval=<seconds>[&threads=1|&tree=1]
+const handleStream = (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '', 'http://localhost');
+  const pid = parseInt(url.searchParams.get('pid') || '', 10);
+  const interval = parseFloat(url.searchParams.get('interval') || '1');
+  const threads = url.searchParams.get('threads') === '1';
+  const tree = url.searchParams.get('tree') === '1';
+
+  if (!Number.isInteger(pid) || pid <= 0) {
+    res.statusCode = 400;
+    res.end('Missing or invalid "pid" query parameter');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  // Ask the browser to wait a bit before its own automatic retry
+  res.write('retry: 2000\n\n');
+
+  const stop = watchProcess(pid, {
+    intervalMs: Math.max(MIN_INTERVAL_MS, (Number.isFinite(interval) ? interval : 1) * 1000),
+    threads,
+    tree,
+    onEntry: (entry) => sendEvent(res, 'entry', entry),
+    onExit: (reason) => {
+      sendEvent(res, 'exit', { pid, reason, timestamp: new Date().toISOString() });
+      res.end();
+    },
+  });
+
+  req.on('close', stop);
+};
+
+const middleware: Connect.NextHandleFunction = (req, res, next) => {
+  if (req.method === 'GET' && req.url?.startsWith(STREAM_ENDPOINT)) {
+    handleStream(req, res);
+    return;
+  }
+  next();
+};
+
+// Serves live /proc samples from the dev and preview servers so the Dashboard can stream a local process.
+export const processStreamPlugin = (): Plugin => ({
+  name: 'process-stream',
+  configureServer(server) {
+    server.middlewares.use(middleware);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(middleware);
+  },
+});
@@ -0,0 +1,121 @@
+import { CpuLogEntry } from '../types';
+import { formatLocalTimestamp } from '../utils/time';
+import { createHostCpuReader, getClockTicks, ProcStat, readAllProcStats, readCommandLine, readProcStatus, readTotalMemoryBytes, readUptimeSeconds } from './procfs';
+import { ProcessSampler } from './sampler';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// PIDs of `root` and all its descendants, found by following ppid links
+const collectTree = (root: number, stats: Map<number, ProcStat>): number[] => {
+  const children = new Map<number, number[]>();
+  stats.forEach((stat, pid) => {
+    if (pid === root) return;
+    const siblings = children.get(stat.ppid);
+    if (siblings) siblings.push(pid);
+    else children.set(stat.ppid, [pid]);
+  });
+  const tree = [root];
+  for (let i = 0; i < tree.length; i++) tree.push(...(children.get(tree[i]) ?? []));
+  return tree;
+};
+
+// Samples a process and every descendant. Each tick yields an aggregate sample for the root
+// followed by one sample per live member. Children that exit between ticks still count: once
+// reaped, their CPU time shows up in their parent's cutime/cstime, and whatever of it we had
+// not already seen them use is added to the aggregate as exited_cpu_percent.
+export const createTreeSampler = async (root: number): Promise<ProcessSampler | null> => {
+  let last = await readAllProcStats();
+  const first = last.get(root);
+  if (!first) return null;
+
+  const clockTicks = getClockTicks();
+  const totalMem = (await readTotalMemoryBytes()) || 1; // Prevent division by zero
+  const readHostCpu = await createHostCpuReader();
+  const commands = new Map<string, string>(); // Keyed by pid + starttime, as PIDs get reused
+  const commandOf = async (pid: number, stat: ProcStat) => {
+    const key = `${pid}:${stat.starttime}`;
+    if (!commands.has(key)) commands.set(key, (await readCommandLine(pid)) || stat.comm);
+    return commands.get(key)!;
+  };
+  const command = await commandOf(root, first);
+
+  let lastTree = collectTree(root, last);
+  let lastUptime = (await readUptimeSeconds()) ?? 0;
+  let lastTime = performance.now();
+
+  const sample = async (): Promise<CpuLogEntry[] | null> => {
+    const curr = await readAllProcStats();
+    const rootStat = curr.get(root);
+    if (!rootStat || rootStat.starttime !== first.starttime) return null;
+    const uptime = (await readUptimeSeconds()) ?? lastUptime;
+    const host = await readHostCpu();
+
+    const now = performance.now();
+    const elapsedSec = Math.max((now - lastTime) / 1000, 1e-3);
+    const toPercent = (ticks: number) => (Math.max(0, ticks) / clockTicks / elapsedSec) * 100;
+    const sameProcess = (pid: number, stat: ProcStat) => last.get(pid)?.starttime === stat.starttime;
+
+    const tree = collectTree(root, curr);
+    const timestamp = formatLocalTimestamp(new Date());
+    const members: CpuLogEntry[] = [];
+    let reapedUser = 0;
+    let reapedSys = 0;
+
+    for (const pid of tree) {
+      const stat = curr.get(pid)!;
+      const prev = sameProcess(pid, stat) ? last.get(pid)! : null;
+      // A process that started since the last tick used all of its CPU time within this interval
+      const startedSinceLast = stat.starttime / clockTicks >= lastUptime;
+      const base = prev ?? (startedSinceLast ? { utime: 0, stime: 0, cutime: 0, cstime: 0 } : stat);
+      reapedUser += stat.cutime - base.cutime;
+      reapedSys += stat.cstime - base.cstime;
+
+      const status = await readProcStatus(pid);
+      members.push({
+        timestamp,
+        pid,
+        ppid: stat.ppid,
+        tree_root: root,
+        cpu_user_percent: round2(toPercent(stat.utime - base.utime)),
+        cpu_sys_percent: round2(toPercent(stat.stime - base.stime)),
+        memory_percent: status ? round2((status.rssBytes / totalMem) * 100) : undefined,
+        command: await commandOf(pid, stat),
+      });
+    }
+
+    // Reaped time also includes the part of exited members' CPU we already reported, so take
+    // their last readings back out. Members that were merely reparented away are still alive
+    // and are not reaped by anyone in the tree.
+    lastTree.forEach(pid => {
+      const prev = last.get(pid)!;
+      const stat = curr.get(pid);
+      if (stat && stat.starttime === prev.starttime) return;
+      reapedUser -= prev.utime + prev.cutime;
+      reapedSys -= prev.stime + prev.cstime;
+    });
+    const exitedUser = toPercent(reapedUser);
+    const exitedSys = toPercent(reapedSys);
+
+    const aggregate: CpuLogEntry = {
+      timestamp,
+      pid: root,
+      ppid: rootStat.ppid,
+      ...host,
+      cpu_user_percent: round2(members.reduce((sum, m) => sum + m.cpu_user_percent, exitedUser)),
+      cpu_sys_percent: round2(members.reduce((sum, m) => sum + m.cpu_sys_percent, exitedSys)),
+      // Shared pages are counted once per member, so the sum can overshoot
+      memory_percent: Math.min(100, round2(members.reduce((sum, m) => sum + (m.memory_percent ?? 0), 0))),
+      command,
+      tree_size: tree.length,
+      exited_cpu_percent: round2(exitedUser + exitedSys),
+    };
+
+    last = curr;
+    lastTree = tree;
+    lastUptime = uptime;
+    lastTime = now;
+    return [aggregate, ...members];
+  };
+
+  return { pid: root, command, sample };
+};
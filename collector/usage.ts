@@ -0,0 +1,17 @@
+// Kept free of Node imports so the setup screen can display it too
+export const USAGE = `Usage: lpm-collect <PID> [--interval <seconds>] [--duration <seconds>] [--out <file.jsonl> [--append]] [--threads | --tree]
+
+Samples /proc/<PID> and writes one JSON line per sample, in the format the dashboard imports.
+
+Options:
+  -i, --interval <seconds>  Time between samples (default: 1)
+  -d, --duration <seconds>  Stop after this many seconds (default: until the process exits)
+  -o, --out <file>          Write samples to a file instead of stdout, replacing its contents
+  -a, --append              Add to the end of the --out file instead of replacing it
+  -t, --threads             Also write a sample per busy thread, with its TID and name
+  -T, --tree                Sum CPU over the process and all its descendants, including children
+                            that exit between samples, and write a sample per live descendant.
+                            Replaces --threads, which it cannot be combined with
+  -h, --help                Show this message`;
+
+export const EXAMPLE_COMMAND = 'npx lpm-collect <PID> --interval 1 --out run.jsonl';
@@ -0,0 +1,169 @@
+import React from 'react';
+import { AlertComparator, AlertMetric, AlertRule } from '../types';
+import { ALERT_COMPARATORS, ALERT_METRICS, alertValueIn, createAlertRule, DEFAULT_ALERT_RULES } from '../services/alertService';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+  scaleFactor: number; // CPU values are stored per core and shown divided by this
+}
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+
+const SEVERITY_OPTIONS: AlertRule['severity'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ rules, onChange, scaleFactor }) => {
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+  // Inputs show CPU values in the dashboard's unit and write them back per core
+  const shown = (rule: AlertRule, value: number) => Math.round(alertValueIn(rule.metric, value, scaleFactor) * 100) / 100;
+  const stored = (rule: AlertRule, value: number) => (ALERT_METRICS[rule.metric].perCore ? value * scaleFactor : value);
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-200">Alert Rules</h3>
+          <p className="text-xs text-slate-500">
+            An incident opens when the condition holds for the minimum duration and clears once the metric moves back past the threshold by the hysteresis.
+            {scaleFactor !== 1 && ' CPU thresholds are shown as % of machine; rules are stored per core.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange(DEFAULT_ALERT_RULES)}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-2 rounded hover:bg-slate-700 transition-colors"
+            title="Restore the default rules"
+          >
+            <RotateCcw size={14} />
+            Defaults
+          </button>
+          <button
+            onClick={() => onChange([...rules, createAlertRule()])}
+            className="flex items-center gap-1 text-xs text-white bg-blue-600 hover:bg-blue-500 px-3 py-2 rounded transition-colors"
+          >
+            <Plus size={14} />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-4">No alert rules. Add one to start detecting incidents.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                <th className="py-2 pr-2 font-medium">On</th>
+                <th className="py-2 pr-2 font-medium">Name</th>
+                <th className="py-2 pr-2 font-medium">Condition</th>
+                <th className="py-2 pr-2 font-medium">Min Duration</th>
+                <th className="py-2 pr-2 font-medium">Hysteresis</th>
+                <th className="py-2 pr-2 font-medium">Severity</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-t border-slate-700/50 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="accent-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                      className={`${inputClass} w-36`}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={rule.metric}
+                        onChange={(e) => updateRule(rule.id, { metric: e.target.value as AlertMetric })}
+                        className={inputClass}
+                      >
+                        {Object.entries(ALERT_METRICS).map(([id, m]) => (
+                          <option key={id} value={id}>{m.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={rule.comparator}
+                        onChange={(e) => updateRule(rule.id, { comparator: e.target.value as AlertComparator })}
+                        className={`${inputClass} font-mono`}
+                      >
+                        {ALERT_COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        step="any"
+                        value={shown(rule, rule.threshold)}
+                        onChange={(e) => updateRule(rule.id, { threshold: stored(rule, Number(e.target.value)) })}
+                        className={`${inputClass} w-20`}
+                      />
+                      <span className="text-slate-500 text-xs">{ALERT_METRICS[rule.metric].unit}</span>
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min="0"
+                        value={rule.minDurationSec}
+                        onChange={(e) => updateRule(rule.id, { minDurationSec: Math.max(0, Number(e.target.value)) })}
+                        className={`${inputClass} w-20`}
+                      />
+                      <span className="text-slate-500 text-xs">s</span>
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={shown(rule, rule.hysteresis)}
+                        onChange={(e) => updateRule(rule.id, { hysteresis: stored(rule, Math.max(0, Number(e.target.value))) })}
+                        className={`${inputClass} w-16`}
+                      />
+                      <span className="text-slate-500 text-xs">{ALERT_METRICS[rule.metric].unit}</span>
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={rule.severity}
+                      onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlertRule['severity'] })}
+                      className={inputClass}
+                    >
+                      {SEVERITY_OPTIONS.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                      className="p-1 text-slate-500 hover:text-red-400 rounded hover:bg-slate-700 transition-colors"
+                      title="Delete rule"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
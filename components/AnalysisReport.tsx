@@ -0,0 +1,62 @@
+import React from 'react';
+import { AnalysisResult } from '../types';
+import { BrainCircuit } from 'lucide-react';
+
+interface AnalysisReportProps {
+  analysis: AnalysisResult;
+  title?: string;
+}
+
+const AnalysisReport: React.FC<AnalysisReportProps> = ({ analysis, title = 'Performance Report' }) => (
+  <div className="animate-fade-in-up">
+    <div className={`rounded-xl border p-6 ${
+      analysis.severity === 'HIGH' ? 'bg-red-900/20 border-red-800' :
+      analysis.severity === 'MEDIUM' ? 'bg-yellow-900/20 border-yellow-800' :
+      'bg-emerald-900/20 border-emerald-800'
+    }`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <BrainCircuit size={24} className={
+             analysis.severity === 'HIGH' ? 'text-red-400' :
+             analysis.severity === 'MEDIUM' ? 'text-yellow-400' :
+             'text-emerald-400'
+          } />
+          {analysis.generatedBy?.startsWith('Rule-based') ? title : `AI ${title}`}
+          {analysis.generatedBy && (
+            <span className="text-xs font-normal text-slate-400 ml-1">by {analysis.generatedBy}</span>
+          )}
+        </h3>
+        <span className={`px-3 py-1 rounded-full text-xs font-bold tracking-wide ${
+             analysis.severity === 'HIGH' ? 'bg-red-500/20 text-red-300' :
+             analysis.severity === 'MEDIUM' ? 'bg-yellow-500/20 text-yellow-300' :
+             'bg-emerald-500/20 text-emerald-300'
+        }`}>
+          SEVERITY: {analysis.severity}
+        </span>
+      </div>
+      
+      <div className="space-y-4">
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-white/5">
+          <h4 className="text-sm text-slate-400 uppercase tracking-wider font-semibold mb-2">Summary</h4>
+          <p className="text-slate-200 leading-relaxed">{analysis.summary}</p>
+        </div>
+        
+        <div>
+          <h4 className="text-sm text-slate-400 uppercase tracking-wider font-semibold mb-2">Recommendations</h4>
+          <ul className="grid gap-2">
+            {analysis.recommendations.map((rec, idx) => (
+              <li key={idx} className="flex items-start gap-3 bg-slate-900/30 p-3 rounded border border-white/5">
+                <span className="flex-shrink-0 w-5 h-5 rounded-full bg-blue-500/20 text-blue-400 flex items-center justify-center text-xs mt-0.5">
+                  {idx + 1}
+                </span>
+                <span className="text-slate-300">{rec}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default AnalysisReport;
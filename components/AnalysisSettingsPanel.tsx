@@ -0,0 +1,88 @@
+import React from 'react';
+import { AnalysisProviderId, AnalysisSettings } from '../types';
+import { ANALYSIS_PROVIDERS } from '../services/analysisService';
+import { X } from 'lucide-react';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const provider = ANALYSIS_PROVIDERS[settings.provider];
+
+  const handleProviderChange = (id: AnalysisProviderId) => {
+    onChange({ ...settings, provider: id, model: ANALYSIS_PROVIDERS[id].defaultModel });
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-slate-800 border border-slate-600 rounded-xl shadow-2xl p-4 space-y-3 z-20 animate-in fade-in zoom-in-95 duration-100">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-slate-200">Analysis Provider</h3>
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-white rounded hover:bg-slate-700 transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Provider</span>
+        <select
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as AnalysisProviderId)}
+          className={inputClass}
+        >
+          {Object.values(ANALYSIS_PROVIDERS).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Model</span>
+        <input
+          type="text"
+          value={settings.model}
+          placeholder={provider.defaultModel}
+          onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      {provider.requiresEndpoint && (
+        <>
+          <label className="block space-y-1">
+            <span className="text-xs text-slate-400">Endpoint (base URL)</span>
+            <input
+              type="url"
+              value={settings.endpoint}
+              placeholder="http://localhost:11434/v1"
+              onChange={(e) => onChange({ ...settings, endpoint: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs text-slate-400">API key (optional)</span>
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <p className="text-[11px] text-slate-500">
+            Works with Ollama, llama.cpp's llama-server and other servers exposing <code>/chat/completions</code>. Process data is only sent to this endpoint.
+          </p>
+        </>
+      )}
+
+      {!provider.requiresEndpoint && (
+        <p className="text-[11px] text-slate-500">Uses the <code>GEMINI_API_KEY</code> from <code>.env.local</code>. Sampled process data is sent to Google.</p>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation } from '../types';
+import { ANNOTATION_KINDS, annotationColor, parseAnnotations } from '../utils/annotations';
+import { formatDateTime } from '../utils/time';
+import { MessageSquarePlus, Upload, Trash2, X } from 'lucide-react';
+
+interface AnnotationPanelProps {
+  annotations: Annotation[];
+  armed: boolean; // Next chart click picks the time of a new note
+  onArmedChange: (armed: boolean) => void;
+  pendingTimestamp: string | null; // Time picked on a chart, waiting for a label
+  onCancelPending: () => void;
+  onAdd: (annotations: Annotation[]) => void;
+  onRemove: (id: string) => void;
+  timeZone: string;
+}
+
+const AnnotationPanel: React.FC<AnnotationPanelProps> = ({ annotations, armed, onArmedChange, pendingTimestamp, onCancelPending, onAdd, onRemove, timeZone }) => {
+  const [label, setLabel] = useState('');
+  const [kind, setKind] = useState('note');
+  const [importResult, setImportResult] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (pendingTimestamp) setLabel('');
+  }, [pendingTimestamp]);
+
+  const sorted = [...annotations].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingTimestamp || !label.trim()) return;
+    onAdd([{ id: crypto.randomUUID(), timestamp: pendingTimestamp, label: label.trim(), kind, source: 'user' }]);
+    onCancelPending();
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const { annotations: imported, skipped } = parseAnnotations(event.target?.result as string);
+      onAdd(imported);
+      setImportResult(`Imported ${imported.length} event${imported.length === 1 ? '' : 's'} from ${file.name}${skipped ? `, skipped ${skipped} unreadable line${skipped === 1 ? '' : 's'}` : ''}`);
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-xl">
+      <h3 className="text-sm font-semibold text-slate-200 flex items-center gap-3">
+        Annotations
+        <span className="text-xs font-normal text-slate-500">{annotations.length} saved</span>
+        <span className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => onArmedChange(!armed)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${
+              armed ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-700 text-slate-300 hover:bg-slate-700'
+            }`}
+            title="Click a point on the CPU or memory chart to annotate it"
+          >
+            <MessageSquarePlus size={14} />
+            {armed ? 'Click a chart…' : 'Annotate'}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium border border-slate-700 text-slate-300 hover:bg-slate-700 transition-colors"
+            title="JSON lines or CSV with timestamp, label and kind, e.g. a deploy log or journalctl -o json output"
+          >
+            <Upload size={14} />
+            Import Events
+          </button>
+          <input ref={fileInputRef} type="file" accept=".jsonl,.json,.csv,.log,.txt" className="hidden" onChange={handleImport} />
+        </span>
+      </h3>
+
+      {importResult && (
+        <p className="mt-2 text-xs text-slate-400 flex items-center gap-2">
+          {importResult}
+          <button onClick={() => setImportResult(null)} className="text-slate-500 hover:text-slate-200"><X size={12} /></button>
+        </p>
+      )}
+
+      {pendingTimestamp && (
+        <form onSubmit={handleSubmit} className="mt-3 flex flex-wrap items-center gap-2 bg-slate-900/50 border border-slate-700/50 rounded-lg p-2 text-xs">
+          <span className="font-mono text-slate-400">{formatDateTime(pendingTimestamp, timeZone)}</span>
+          <input
+            autoFocus
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="What happened here?"
+            className="flex-1 min-w-[12rem] bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          >
+            {ANNOTATION_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+          </select>
+          <button type="submit" disabled={!label.trim()} className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50">Add</button>
+          <button type="button" onClick={onCancelPending} className="px-3 py-1 rounded text-slate-400 hover:text-white">Cancel</button>
+        </form>
+      )}
+
+      {sorted.length > 0 && (
+        <ul className="mt-3 max-h-48 overflow-y-auto space-y-1 text-xs">
+          {sorted.map(a => (
+            <li key={a.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-700/40 group">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: annotationColor(a.kind) }} />
+              <span className="font-mono text-slate-400">{formatDateTime(a.timestamp, timeZone)}</span>
+              <span className="text-slate-500">{a.kind}</span>
+              <span className="text-slate-200 truncate">{a.label}</span>
+              <button
+                onClick={() => onRemove(a.id)}
+                className="ml-auto opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-opacity"
+                title="Delete annotation"
+              >
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationPanel;
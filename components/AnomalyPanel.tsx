@@ -0,0 +1,63 @@
+import React from 'react';
+import { AnomalyRange } from '../types';
+import { formatTimeLabel } from '../utils/time';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+
+interface AnomalyPanelProps {
+  anomalies: AnomalyRange[];
+  sensitivity: number;
+  onSensitivityChange: (sensitivity: number) => void;
+  timeZone: string;
+  scaleFactor: number; // Divides the per-core CPU values, for the dashboard's unit
+}
+
+const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ anomalies, sensitivity, onSensitivityChange, timeZone, scaleFactor }) => (
+  <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-xl flex flex-col h-full">
+    <h3 className="text-sm font-semibold text-slate-200 flex items-center justify-between">
+      Anomalies
+      <span className="text-xs font-normal text-slate-500">{anomalies.length} found</span>
+    </h3>
+    <label className="block mt-3 space-y-1" title="Standard deviations from the rolling baseline before a sample is flagged">
+      <span className="flex justify-between text-xs text-slate-400">
+        Sensitivity
+        <span className="font-mono">|z| ≥ {sensitivity.toFixed(1)}</span>
+      </span>
+      {/* Slider runs from less to more sensitive, i.e. from a high to a low z threshold */}
+      <input
+        type="range"
+        min="2"
+        max="8"
+        step="0.5"
+        value={10 - sensitivity}
+        onChange={(e) => onSensitivityChange(10 - Number(e.target.value))}
+        className="w-full accent-orange-500"
+      />
+    </label>
+
+    <div className="mt-3 flex-1 min-h-0 max-h-72 lg:max-h-none overflow-y-auto space-y-2">
+      {anomalies.length === 0 ? (
+        <p className="text-xs text-slate-500 text-center py-6">No samples stand out from the rolling baseline.</p>
+      ) : (
+        [...anomalies].reverse().map(a => (
+          <div key={a.startIndex} className="bg-slate-900/50 p-2 rounded border border-slate-700/50 text-xs">
+            <div className="flex items-center gap-2">
+              {a.kind === 'spike'
+                ? <TrendingUp size={14} className="text-orange-400 shrink-0" />
+                : <TrendingDown size={14} className="text-sky-400 shrink-0" />}
+              <span className="font-mono text-slate-300">
+                {formatTimeLabel(a.start, timeZone)}{a.end !== a.start && ` – ${formatTimeLabel(a.end, timeZone)}`}
+              </span>
+              <span className="ml-auto font-mono text-slate-500">z={a.score.toFixed(1)}</span>
+            </div>
+            <p className="text-slate-400 mt-1">
+              {a.kind === 'spike' ? 'Spike to' : 'Drop to'} <span className="font-mono text-white">{(a.peak / scaleFactor).toFixed(1)}%</span>
+              {' '}from a baseline of <span className="font-mono">{(a.expected / scaleFactor).toFixed(1)}%</span>
+            </p>
+          </div>
+        ))
+      )}
+    </div>
+  </div>
+);
+
+export default AnomalyPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ColumnMapping, MappedField } from '../types';
+import { MAPPED_FIELDS, REQUIRED_FIELDS } from '../utils/formats/csv';
+
+interface ColumnMappingPanelProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const FIELD_LABELS: Record<MappedField, string> = {
+  timestamp: 'Timestamp',
+  pid: 'PID',
+  cpu_user_percent: 'User CPU %',
+  cpu_sys_percent: 'System CPU %',
+  memory_percent: 'Memory %',
+  command: 'Command',
+  tid: 'Thread ID',
+  thread_name: 'Thread name',
+  ppid: 'Parent PID',
+  tree_root: 'Tree root PID',
+  tree_size: 'Tree size',
+  exited_cpu_percent: 'Exited children CPU %',
+  cpu_count: 'Host CPU count',
+  host_cpu_percent: 'Host CPU %',
+  read_bytes_per_sec: 'Read bytes/s',
+  write_bytes_per_sec: 'Write bytes/s',
+  voluntary_ctx_switches_per_sec: 'Voluntary ctx switches/s',
+  nonvoluntary_ctx_switches_per_sec: 'Involuntary ctx switches/s',
+  minor_faults_per_sec: 'Minor faults/s',
+  major_faults_per_sec: 'Major faults/s',
+  threads: 'Threads',
+  fd_count: 'Open FDs',
+  rss_bytes: 'RSS bytes',
+};
+
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ headers, mapping, onChange }) => {
+  return (
+    <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+      <h3 className="text-xs text-slate-400 uppercase tracking-wider font-semibold mb-2">Column Mapping</h3>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {MAPPED_FIELDS.map(field => {
+          const required = REQUIRED_FIELDS.includes(field);
+          const missing = required && !mapping[field];
+          return (
+            <label key={field} className="flex flex-col gap-1 text-[11px] text-slate-400">
+              <span>
+                {FIELD_LABELS[field]}
+                {required && <span className="text-red-400 ml-0.5">*</span>}
+              </span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => onChange({ ...mapping, [field]: e.target.value || null })}
+                className={`bg-slate-900 border rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-blue-500 ${
+                  missing ? 'border-red-500/60' : 'border-slate-700'
+                }`}
+              >
+                <option value="">— none —</option>
+                {headers.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingPanel;
@@ -0,0 +1,223 @@
+import React, { useState, useMemo, useRef } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { AnalysisResult, ComparedDataset, ComparisonRow } from '../types';
+import { analyzeComparison, loadAnalysisSettings } from '../services/analysisService';
+import { compareHeuristically } from '../services/heuristicAnalyzer';
+import { loadAlertRules } from '../services/alertService';
+import { compareDatasets, RelativePoint, toRelativeSeries } from '../utils/comparison';
+import { lttb } from '../utils/downsample';
+import { useElementWidth } from '../hooks/useElementWidth';
+import AnalysisReport from './AnalysisReport';
+import { ArrowLeft, ArrowLeftRight, BrainCircuit, Gauge, GitCompare, RefreshCw } from 'lucide-react';
+
+interface ComparisonViewProps {
+  baseline: ComparedDataset;
+  candidate: ComparedDataset;
+  onSwap: () => void;
+  onBack: () => void;
+}
+
+const BASELINE_COLOR = '#94a3b8';
+const CANDIDATE_COLOR = '#f97316';
+const NEUTRAL_CHANGE_PCT = 1; // Changes smaller than this are shown without colour
+
+const formatSeconds = (t: number) => {
+  if (t < 60) return `${Math.round(t)}s`;
+  if (t < 3600) return `${Math.floor(t / 60)}m${Math.round(t % 60) ? ` ${Math.round(t % 60)}s` : ''}`;
+  return `${Math.floor(t / 3600)}h ${Math.floor((t % 3600) / 60)}m`;
+};
+
+const formatValue = (row: ComparisonRow, value: number | null) => {
+  if (value === null) return 'N/A';
+  if (row.unit === 's') return formatSeconds(value);
+  return `${row.unit === '%' ? value.toFixed(1) : value.toLocaleString()}${row.unit}`;
+};
+
+const changeClass = (row: ComparisonRow) => {
+  if (row.change === null || row.higherIsWorse === null || Math.abs(row.change) < NEUTRAL_CHANGE_PCT) return 'text-slate-400';
+  return (row.change > 0) === row.higherIsWorse ? 'text-red-400' : 'text-emerald-400';
+};
+
+const OverlayChart: React.FC<{
+  title: string;
+  baseline: RelativePoint[];
+  candidate: RelativePoint[];
+  value: (p: RelativePoint) => number | undefined;
+  names: [string, string];
+  domain?: [number, number];
+}> = ({ title, baseline, candidate, value, names, domain }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const width = useElementWidth(containerRef);
+
+  // Each series is downsampled on its own; the numeric x axis lines them up
+  const series = useMemo(() => [baseline, candidate].map(points =>
+    lttb<RelativePoint>(points.filter(p => value(p) !== undefined), width, p => p.t, p => value(p)!)
+      .map(p => ({ t: p.t, value: parseFloat(value(p)!.toFixed(2)) }))
+  ), [baseline, candidate, width]);
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+      <h3 className="text-lg font-semibold text-slate-200 mb-6">{title}</h3>
+      <div className="h-72 w-full" ref={containerRef}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <XAxis
+              dataKey="t"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatSeconds}
+              stroke="#64748b"
+              fontSize={12}
+              tickLine={false}
+              allowDuplicatedCategory={false}
+            />
+            <YAxis stroke="#64748b" fontSize={12} tickLine={false} unit="%" domain={domain} />
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+              labelFormatter={(t) => `+${formatSeconds(Number(t))}`}
+              formatter={(v) => `${v}%`}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line data={series[0]} dataKey="value" name={names[0]} stroke={BASELINE_COLOR} dot={false} isAnimationActive={false} />
+            <Line data={series[1]} dataKey="value" name={names[1]} stroke={CANDIDATE_COLOR} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ baseline, candidate, onSwap, onBack }) => {
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const baselineSeries = useMemo(() => toRelativeSeries(baseline.data), [baseline]);
+  const candidateSeries = useMemo(() => toRelativeSeries(candidate.data), [candidate]);
+  // Both runs are judged by the same rules, whatever each session had configured
+  const rows = useMemo(() => compareDatasets(baseline.data, candidate.data, loadAlertRules()), [baseline, candidate]);
+  const hasMemory = [...baselineSeries, ...candidateSeries].some(p => p.memory !== undefined);
+  const names: [string, string] = [`Baseline: ${baseline.name}`, `Candidate: ${candidate.name}`];
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      setAnalysis(await analyzeComparison(baseline, candidate, rows, loadAnalysisSettings()));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleSwap = () => {
+    setAnalysis(null);
+    onSwap();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col">
+      <header className="bg-slate-800/50 border-b border-slate-700 sticky top-0 z-10 backdrop-blur-md">
+        <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4 min-w-0">
+            <button
+              onClick={onBack}
+              className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors"
+              title="Go Back"
+            >
+              <ArrowLeft size={20} />
+            </button>
+            <div className="min-w-0">
+              <h1 className="font-bold text-lg text-white flex items-center gap-2">
+                <GitCompare className="text-orange-400" size={20} />
+                Before / After Comparison
+              </h1>
+              <p className="text-xs text-slate-400 truncate">
+                <span className="text-slate-300">{baseline.name}</span> vs <span className="text-orange-300">{candidate.name}</span>, aligned by time since start
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSwap}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-800 transition-colors border border-transparent hover:border-slate-700"
+              title="Swap baseline and candidate"
+            >
+              <ArrowLeftRight size={16} />
+              <span className="hidden sm:inline">Swap</span>
+            </button>
+            <button
+              onClick={() => setAnalysis(compareHeuristically(baseline.name, candidate.name, rows))}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-800 transition-colors border border-slate-700"
+              title="Rule-based comparison that runs locally without AI"
+            >
+              <Gauge size={16} />
+              <span className="hidden sm:inline">Offline Analysis</span>
+            </button>
+            <button
+              onClick={handleAnalyze}
+              disabled={isAnalyzing}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all bg-purple-600 hover:bg-purple-500 text-white shadow-lg shadow-purple-900/30 ${isAnalyzing ? 'opacity-75 cursor-wait' : ''}`}
+            >
+              {isAnalyzing ? <RefreshCw className="animate-spin" size={16} /> : <BrainCircuit size={16} />}
+              Explain Difference
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-7xl mx-auto w-full p-4 lg:p-8 space-y-6">
+        <OverlayChart
+          title="Total CPU"
+          baseline={baselineSeries}
+          candidate={candidateSeries}
+          value={p => p.total}
+          names={names}
+          domain={[0, 100]}
+        />
+        {hasMemory && (
+          <OverlayChart
+            title="Memory"
+            baseline={baselineSeries}
+            candidate={candidateSeries}
+            value={p => p.memory}
+            names={names}
+          />
+        )}
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+          <h3 className="text-lg font-semibold text-slate-200 mb-4">Differences</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                  <th className="py-2 pr-4 font-medium">Metric</th>
+                  <th className="py-2 pr-4 font-medium text-right">Baseline</th>
+                  <th className="py-2 pr-4 font-medium text-right">Candidate</th>
+                  <th className="py-2 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {rows.map(row => (
+                  <tr key={row.label} className="border-t border-slate-700/50">
+                    <td className="py-2 pr-4 font-sans text-slate-300">{row.label}</td>
+                    <td className="py-2 pr-4 text-right text-slate-400">{formatValue(row, row.baseline)}</td>
+                    <td className="py-2 pr-4 text-right text-slate-200">{formatValue(row, row.candidate)}</td>
+                    <td className={`py-2 text-right ${changeClass(row)}`}>
+                      {row.change === null ? '—' : `${row.change > 0 ? '+' : ''}${row.change.toFixed(1)}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {analysis && <AnalysisReport analysis={analysis} title="Comparison Report" />}
+      </main>
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -1,17 +1,118 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
-  AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+  AreaChart, Area, ComposedChart, Line, ReferenceLine, ReferenceArea, ReferenceDot, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
 } from 'recharts';
-import { CpuLogEntry, AnalysisResult } from '../types';
-import { analyzeCpuData } from '../services/geminiService';
-import { BrainCircuit, Activity, ArrowLeft, RefreshCw, Filter, X, Save, DownloadCloud, Copy, Check, AlertTriangle, Play, Pause, Zap } from 'lucide-react';
+import { CpuLogEntry, AnalysisResult, AnalysisSettings, StreamStatus, StreamExitInfo, AlertRule, CaptureSession, CpuScale, DistributionSummary, Annotation, SamplingBreak } from '../types';
+import { analyzeCpuData, ANALYSIS_PROVIDERS, loadAnalysisSettings, saveAnalysisSettings } from '../services/analysisService';
+import { analyzeHeuristically } from '../services/heuristicAnalyzer';
+import { subscribeToProcessStream } from '../services/streamService';
+import { evaluateAlertRules, loadAlertRules, saveAlertRules } from '../services/alertService';
+import { addSessionAnalysis, appendSessionData, loadSessionData, updateSession, DEFAULT_CPU_THRESHOLD } from '../services/sessionService';
+import { buildHtmlReport, serializeChartSvg } from '../services/reportService';
+import { entriesToCsv } from '../utils/formats/csv';
+import { downloadTextFile } from '../utils/download';
+import { lttb } from '../utils/downsample';
+import { fitMemoryTrend, formatHoursToLimit, memoryTrendAt } from '../utils/memoryTrend';
+import { detectAnomalies, DEFAULT_ANOMALY_SENSITIVITY } from '../utils/anomaly';
+import { readLinkState, writeLinkState } from '../utils/urlState';
+import { processSamples, summarizeThreads, threadSamples } from '../utils/threads';
+import { summarizeTreeMembers, treeMemberSamples } from '../utils/processTree';
+import { cpuCountOf, cpuScaleFactor, hostCpuIn, scaleCpu } from '../utils/cpuScale';
+import { summarizeUsage } from '../utils/stats';
+import { describeTimeZone, formatDateTime, formatDuration, formatTimeLabel, isValidTimeZone, LOCAL_TIME_ZONE } from '../utils/time';
+import { annotationColor, annotationsBetween } from '../utils/annotations';
+import { inTimeOrder, summarizeDataQuality } from '../utils/dataQuality';
+import { convertFilterValue, filterBounds, pushZoomHistory, toFilterValue, ZoomRange } from '../utils/zoom';
+import { useElementWidth } from '../hooks/useElementWidth';
+import AnalysisSettingsPanel from './AnalysisSettingsPanel';
+import AlertRulesPanel from './AlertRulesPanel';
+import IncidentTable from './IncidentTable';
+import AnomalyPanel from './AnomalyPanel';
+import AnalysisReport from './AnalysisReport';
+import ShareLinkPanel from './ShareLinkPanel';
+import ExtendedMetricsPanels from './ExtendedMetricsPanels';
+import ThreadBreakdown from './ThreadBreakdown';
+import ProcessTreePanel from './ProcessTreePanel';
+import DistributionPanel from './DistributionPanel';
+import AnnotationPanel from './AnnotationPanel';
+import ZoomOverview from './ZoomOverview';
+import DataQualityPanel from './DataQualityPanel';
+import TimeZoneSelect from './TimeZoneSelect';
+import { BrainCircuit, Activity, ArrowLeft, RefreshCw, Filter, X, Save, DownloadCloud, Copy, Check, AlertTriangle, Play, Pause, Zap, PowerOff, FileDown, Settings2, Gauge, BellRing, TrendingUp, FileText, Share2, GitFork } from 'lucide-react';
 
 interface DashboardProps {
   data: CpuLogEntry[];
+  livePid?: number; // Start streaming this PID immediately
+  session: CaptureSession | null; // Library entry that analyses, settings and streamed samples are saved to
   onReset: () => void;
 }
 
 const MAX_HISTORY = 100; // Rolling window size for real-time data
+const STREAM_INTERVAL_SEC = 1;
+const PERSIST_INTERVAL_MS = 5000; // How often streamed samples are written to the session
+const LIVE_BATCH_MS = 200; // Stream events are added to the data together, once per batch
+const MAX_LIVE_ENTRIES = 50_000; // Entries kept in memory while streaming; the session has the rest
+const MAX_ANOMALY_MARKERS = 100; // Strongest anomalies drawn on the chart; the panel lists all of them
+const MAX_BREAK_MARKERS = 100; // Gaps and restarts drawn on the charts; the data quality panel counts all of them
+const LINK_HISTORY_DEBOUNCE_MS = 600; // Quick successive filter edits become one back-button step
+const DISPLAY_TIME_ZONE_KEY = 'cpu_display_time_zone';
+
+const STREAM_STATUS_LABEL: Record<StreamStatus, string> = {
+  idle: 'IDLE',
+  connecting: 'CONNECTING',
+  live: 'LIVE',
+  reconnecting: 'RECONNECTING',
+  exited: 'EXITED',
+};
+
+// Percentile line shown under a report stat
+const percentilesOf = (summary: DistributionSummary, scaleFactor: number) =>
+  `p50 ${(summary.p50 / scaleFactor).toFixed(1)}% • p90 ${(summary.p90 / scaleFactor).toFixed(1)}% • p95 ${(summary.p95 / scaleFactor).toFixed(1)}% • p99 ${(summary.p99 / scaleFactor).toFixed(1)}%`;
+
+// Thresholds are stored per core; converted to "% of machine" they get one decimal
+const formatThreshold = (value: number) => Math.round(value * 10) / 10;
+
+// Detail samples (threads, tree members) between the first and last of `window`
+const samplesInWindow = (samples: CpuLogEntry[], window: CpuLogEntry[]) => {
+  if (samples.length === 0 || window.length === 0) return [];
+  const startTs = new Date(window[0].timestamp).getTime();
+  const endTs = new Date(window[window.length - 1].timestamp).getTime();
+  return samples.filter(d => {
+    const t = new Date(d.timestamp).getTime();
+    return t >= startTs && t <= endTs;
+  });
+};
+
+// Index of the plotted point closest to `ts`; `times` are the points' epoch ms, ascending
+const nearestIndex = (times: number[], ts: string) => {
+  const t = new Date(ts).getTime();
+  let lo = 0;
+  let hi = times.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && t - times[lo - 1] < times[lo] - t ? lo - 1 : lo;
+};
+
+// Annotations as vertical lines on a chart, snapped to its plotted points so they land on the category axis
+const annotationLines = (annotations: Annotation[], points: { timestamp: string; timeLabel: string }[]) => {
+  if (points.length === 0) return [];
+  const times = points.map(d => new Date(d.timestamp).getTime());
+  return annotations.map(a => ({ ...a, x: points[nearestIndex(times, a.timestamp)].timeLabel }));
+};
+
+// Gaps and restarts as shaded spans between the plotted points either side of them
+const breakMarkers = (breaks: SamplingBreak[], points: { timestamp: string; timeLabel: string }[]) => {
+  if (points.length === 0) return [];
+  const times = points.map(d => new Date(d.timestamp).getTime());
+  return breaks.slice(0, MAX_BREAK_MARKERS).map(b => ({
+    ...b,
+    x1: points[nearestIndex(times, b.start)].timeLabel,
+    x2: points[nearestIndex(times, b.end)].timeLabel,
+  }));
+};
 
 const CustomTooltip = ({ active, payload, label }: any) => {
   const [copied, setCopied] = useState<string | null>(null);
@@ -80,20 +181,52 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) => {
+const Dashboard: React.FC<DashboardProps> = ({ data: initialData, livePid, session, onReset }) => {
   // Local state for data to allow appending real-time updates
   const [localData, setLocalData] = useState<CpuLogEntry[]>(initialData);
+  // View state from the URL the dashboard was opened with; App clears the hash for anything else
+  const [openedLink] = useState(readLinkState);
   
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(session?.analyses[session.analyses.length - 1]?.result ?? null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [filterStart, setFilterStart] = useState<string>('');
   const [filterEnd, setFilterEnd] = useState<string>('');
   const [hasSavedAnalysis, setHasSavedAnalysis] = useState(false);
-  const [cpuThreshold, setCpuThreshold] = useState<number>(80);
+  const [cpuThreshold, setCpuThreshold] = useState<number>(openedLink.cpuThreshold ?? session?.cpuThreshold ?? DEFAULT_CPU_THRESHOLD);
+  const [cpuScale, setCpuScale] = useState<CpuScale>(openedLink.cpuScale ?? 'core');
+  // Zone for labels and the filter inputs; a link brings its own so the filters mean the same instants
+  const [displayTimeZone, setDisplayTimeZone] = useState<string>(() => {
+    const saved = localStorage.getItem(DISPLAY_TIME_ZONE_KEY);
+    return openedLink.timeZone ?? (saved && isValidTimeZone(saved) ? saved : LOCAL_TIME_ZONE);
+  });
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [showAnalysisSettings, setShowAnalysisSettings] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(session?.alertRules ?? loadAlertRules);
+  const [showAlertRules, setShowAlertRules] = useState(false);
+  const [showShareLink, setShowShareLink] = useState(false);
+  const [memoryLimit, setMemoryLimit] = useState<number>(100);
+  const [anomalySensitivity, setAnomalySensitivity] = useState<number>(DEFAULT_ANOMALY_SENSITIVITY);
+  const [annotations, setAnnotations] = useState<Annotation[]>(session?.annotations ?? []);
+  const [annotating, setAnnotating] = useState(false);
+  const [pendingAnnotation, setPendingAnnotation] = useState<string | null>(null); // Timestamp awaiting a label
+  const [zoomHistory, setZoomHistory] = useState<ZoomRange[]>([]); // Ranges to step back to, newest last
+  const [zoomDrag, setZoomDrag] = useState<{ chart: 'cpu' | 'memory'; from: number; to: number } | null>(null);
   
   // Streaming State
-  const [isStreaming, setIsStreaming] = useState(false);
-  const streamIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [isStreaming, setIsStreaming] = useState(livePid !== undefined);
+  const [streamPid, setStreamPid] = useState<number>(livePid ?? initialData[0]?.pid ?? 0);
+  const [streamTree, setStreamTree] = useState(false); // Include the PID's descendants
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('idle');
+  const [exitInfo, setExitInfo] = useState<StreamExitInfo | null>(null);
+  const hasStreamedRef = useRef(false);
+  const unsavedRef = useRef<CpuLogEntry[]>([]); // Streamed samples not yet written to the session
+  const liveRunRef = useRef(0); // Counts stream starts, so a reload from an earlier one is dropped
+  const trimmedRef = useRef(false); // Older samples were dropped from memory while streaming
+  const widenFiltersRef = useRef(false); // The stream's last batch still has to reach the filters
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const memChartRef = useRef<HTMLDivElement>(null);
+  const distChartRef = useRef<HTMLDivElement>(null);
+  const linkedFiltersRef = useRef<string | null>(null); // Filters last written to the URL
 
   // Check for saved analysis on mount
   useEffect(() => {
@@ -104,152 +237,230 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
   // Initialize filters when data loads (only once or if hard reset)
   useEffect(() => {
     if (initialData.length > 0 && !isStreaming) {
-      const formatForInput = (ts: string) => {
-          try {
-            return ts.length >= 16 ? ts.substring(0, 16) : ts;
-          } catch { return ''; }
-      };
-      setFilterStart(formatForInput(initialData[0].timestamp));
-      setFilterEnd(formatForInput(initialData[initialData.length - 1].timestamp));
+      setFilterStart(openedLink.filterStart ?? toFilterValue(initialData[0].timestamp, displayTimeZone));
+      setFilterEnd(openedLink.filterEnd ?? toFilterValue(initialData[initialData.length - 1].timestamp, displayTimeZone));
     }
   }, [initialData]); // Removed isStreaming dependency to prevent reset on toggle
 
+  // Mirror the view into the URL hash. Filter changes add a history entry, other changes replace the current one.
+  useEffect(() => {
+    if (isStreaming || (!filterStart && !filterEnd)) return;
+    const filters = `${filterStart}|${filterEnd}`;
+    const isFilterChange = linkedFiltersRef.current !== null && linkedFiltersRef.current !== filters;
+    const timer = setTimeout(() => {
+      linkedFiltersRef.current = filters;
+      writeLinkState({
+        filterStart,
+        filterEnd,
+        cpuThreshold,
+        cpuScale,
+        timeZone: displayTimeZone,
+        sessionId: session?.id,
+        // Keep embedded samples in the URL until they have been stored as a session
+        data: session ? undefined : openedLink.data,
+      }, isFilterChange ? 'push' : 'replace');
+    }, isFilterChange ? LINK_HISTORY_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [filterStart, filterEnd, cpuThreshold, cpuScale, displayTimeZone, session?.id, isStreaming]);
+
+  // Back/forward restores the view stored in that history entry
+  useEffect(() => {
+    const handlePopState = () => {
+      const link = readLinkState();
+      if (link.filterStart === undefined && link.filterEnd === undefined) return;
+      linkedFiltersRef.current = `${link.filterStart ?? ''}|${link.filterEnd ?? ''}`;
+      setFilterStart(link.filterStart ?? '');
+      setFilterEnd(link.filterEnd ?? '');
+      if (link.timeZone !== undefined) setDisplayTimeZone(link.timeZone);
+      if (link.cpuThreshold !== undefined) setCpuThreshold(link.cpuThreshold);
+      if (link.cpuScale !== undefined) setCpuScale(link.cpuScale);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(DISPLAY_TIME_ZONE_KEY, displayTimeZone);
+  }, [displayTimeZone]);
+
   // Streaming Logic
   useEffect(() => {
-    if (isStreaming) {
-      // Clear any existing analysis when streaming starts as data is changing
-      if (analysis) setAnalysis(null);
-
-      streamIntervalRef.current = setInterval(() => {
-        setLocalData(prevData => {
-          const lastEntry = prevData[prevData.length - 1];
-          const lastDate = new Date(lastEntry.timestamp);
-          const newDate = new Date(lastDate.getTime() + 1000); // Add 1 second
-          
-          // Simulate Random Walk for realistic-looking data
-          const drift = () => (Math.random() - 0.5) * 10;
-          const clamp = (num: number) => Math.min(100, Math.max(0, num));
-          
-          const newUser = clamp(lastEntry.cpu_user_percent + drift());
-          const newSys = clamp(lastEntry.cpu_sys_percent + (drift() / 2));
-          const newMem = lastEntry.memory_percent 
-            ? clamp(lastEntry.memory_percent + (drift() / 5)) 
-            : undefined;
-
-          const newEntry: CpuLogEntry = {
-            timestamp: newDate.toISOString(),
-            pid: lastEntry.pid,
-            cpu_user_percent: Number(newUser.toFixed(2)),
-            cpu_sys_percent: Number(newSys.toFixed(2)),
-            memory_percent: newMem ? Number(newMem.toFixed(2)) : undefined,
-            command: lastEntry.command
-          };
-
-          // Rolling window: Keep last MAX_HISTORY items
-          const updated = [...prevData, newEntry];
-          if (updated.length > MAX_HISTORY) {
-            return updated.slice(updated.length - MAX_HISTORY);
-          }
-          return updated;
-        });
-      }, 1000);
-    } else {
-      if (streamIntervalRef.current) {
-        clearInterval(streamIntervalRef.current);
-      }
-    }
+    if (!isStreaming || !streamPid) return;
+
+    // Clear any existing analysis when streaming starts as data is changing
+    if (analysis) setAnalysis(null);
+    setExitInfo(null);
+    hasStreamedRef.current = true;
+    liveRunRef.current++;
 
+    // Every tick brings a burst of thread or tree member events; copying the data for each of them
+    // would make a long session quadratic, so they are added together
+    let batch: CpuLogEntry[] = [];
+    let batchTimer: ReturnType<typeof setTimeout> | null = null;
+    const flushBatch = () => {
+      const entries = batch;
+      batch = [];
+      batchTimer = null;
+      setLocalData(prevData => {
+        const next = [...prevData, ...entries];
+        if (next.length <= MAX_LIVE_ENTRIES) return next;
+        trimmedRef.current = true;
+        return next.slice(-MAX_LIVE_ENTRIES);
+      });
+    };
+
+    const unsubscribe = subscribeToProcessStream(streamPid, STREAM_INTERVAL_SEC, {
+      onEntry: (entry) => {
+        unsavedRef.current.push(entry);
+        batch.push(entry);
+        if (!batchTimer) batchTimer = setTimeout(flushBatch, LIVE_BATCH_MS);
+      },
+      onStatus: setStreamStatus,
+      onExit: (info) => {
+        setExitInfo(info);
+        setIsStreaming(false);
+      },
+    }, { tree: streamTree });
     return () => {
-      if (streamIntervalRef.current) clearInterval(streamIntervalRef.current);
+      unsubscribe();
+      if (batchTimer) {
+        clearTimeout(batchTimer);
+        flushBatch();
+      }
     };
+  }, [isStreaming, streamPid, streamTree]);
+
+  // Once a live session ends, widen the filters so the whole capture is visible and store the rest of it.
+  // If older samples were dropped from memory, the whole capture is read back from the session.
+  useEffect(() => {
+    if (!isStreaming && hasStreamedRef.current) {
+      resetFilters();
+      widenFiltersRef.current = true;
+      const saved = persistStreamedData();
+      if (!session || !trimmedRef.current) return;
+      const run = liveRunRef.current;
+      saved
+        .then(() => loadSessionData(session.id))
+        .then(data => {
+          if (run !== liveRunRef.current || data.length === 0) return;
+          trimmedRef.current = false;
+          setLocalData(data);
+          resetFilters(data);
+        })
+        .catch(e => console.error("Failed to reload the streamed capture", e));
+    }
   }, [isStreaming]);
 
-  const filteredData = useMemo(() => {
-    // If streaming, just show the rolling window (localData)
-    if (isStreaming) return localData;
+  // The stream's last batch is added after streaming has stopped, so the filters widen again for it
+  useEffect(() => {
+    if (isStreaming || !widenFiltersRef.current) return;
+    widenFiltersRef.current = false;
+    resetFilters();
+  }, [localData]);
 
-    if (!filterStart && !filterEnd) return localData;
-    
-    const startTs = filterStart ? new Date(filterStart).getTime() : -Infinity;
-    const endTs = filterEnd ? new Date(filterEnd).getTime() : Infinity;
+  // Streamed samples are written as they come in, so closing or reloading the tab mid-capture
+  // leaves the library with everything up to the last write. Samples that arrive before the
+  // session has been created wait for it.
+  useEffect(() => {
+    if (!isStreaming || !session) return;
+    persistStreamedData();
+    const timer = setInterval(persistStreamedData, PERSIST_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isStreaming, session?.id]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', persistStreamedData);
+    return () => window.removeEventListener('pagehide', persistStreamedData);
+  }, [session?.id]);
+
+  // Keep the session's alert settings and annotations in step with the dashboard
+  useEffect(() => {
+    if (session) updateSession(session.id, { alertRules, cpuThreshold, annotations }).catch(e => console.error("Failed to save session settings", e));
+  }, [session?.id, alertRules, cpuThreshold, annotations]);
+
+  const persistStreamedData = (): Promise<void> => {
+    const entries = unsavedRef.current;
+    if (!session || entries.length === 0) return Promise.resolve();
+    unsavedRef.current = [];
+    return appendSessionData(session.id, entries).catch(e => {
+      console.error("Failed to save streamed samples", e);
+      // Retry with the next write, ahead of anything that arrived since
+      unsavedRef.current = [...entries, ...unsavedRef.current];
+    });
+  };
+
+  const recordAnalysis = (result: AnalysisResult) => {
+    setAnalysis(result);
+    if (session) addSessionAnalysis(session.id, result).catch(e => console.error("Failed to save analysis", e));
+  };
+
+  const handleBack = () => {
+    persistStreamedData();
+    onReset();
+  };
+
+  const processData = useMemo(() => processSamples(localData), [localData]);
+  const threadData = useMemo(() => threadSamples(localData), [localData]);
+  const treeMemberData = useMemo(() => treeMemberSamples(localData), [localData]);
+
+  // Samples in the window as recorded. Out-of-order ones are counted from these, then drawn in time order.
+  const windowSamples = useMemo(() => {
+    // If streaming, just show the rolling window of the most recent samples
+    if (isStreaming) return processData.slice(-MAX_HISTORY);
+
+    if (!filterStart && !filterEnd) return processData;
     
-    return localData.filter(d => {
+    const { startTs, endTs } = filterBounds(filterStart, filterEnd, displayTimeZone);
+
+    return processData.filter(d => {
         const t = new Date(d.timestamp).getTime();
         return t >= startTs && t <= endTs;
     });
-  }, [localData, filterStart, filterEnd, isStreaming]);
-
-  // Calculate basic stats
-  const stats = useMemo(() => {
-    if (filteredData.length === 0) return { avgUser: 0, avgSys: 0, maxTotal: 0, avgMem: 0, count: 0 };
-    let sumUser = 0;
-    let sumSys = 0;
-    let sumMem = 0;
-    let maxTotal = 0;
-    let memCount = 0;
-
-    filteredData.forEach(d => {
-      sumUser += d.cpu_user_percent;
-      sumSys += d.cpu_sys_percent;
-      const total = d.cpu_user_percent + d.cpu_sys_percent;
-      if (total > maxTotal) maxTotal = total;
-
-      if (d.memory_percent !== undefined) {
-        sumMem += d.memory_percent;
-        memCount++;
-      }
-    });
-    return {
-      avgUser: (sumUser / filteredData.length).toFixed(1),
-      avgSys: (sumSys / filteredData.length).toFixed(1),
-      maxTotal: maxTotal.toFixed(1),
-      avgMem: memCount > 0 ? (sumMem / memCount).toFixed(1) : 'N/A',
-      count: filteredData.length
-    };
-  }, [filteredData]);
+  }, [processData, filterStart, filterEnd, displayTimeZone, isStreaming]);
+
+  const filteredData = useMemo(() => inTimeOrder(windowSamples), [windowSamples]);
+  const dataQuality = useMemo(() => summarizeDataQuality(windowSamples), [windowSamples]);
+
+  // Thread and tree member samples in the same window as filteredData
+  const filteredThreads = useMemo(() => samplesInWindow(threadData, filteredData), [threadData, filteredData]);
+  const filteredTreeMembers = useMemo(() => samplesInWindow(treeMemberData, filteredData), [treeMemberData, filteredData]);
+
+  const windowAnnotations = useMemo(() => (
+    filteredData.length === 0 ? [] : annotationsBetween(annotations, filteredData[0].timestamp, filteredData[filteredData.length - 1].timestamp)
+  ), [annotations, filteredData]);
+
+  const threadSummaries = useMemo(() => summarizeThreads(filteredThreads, filteredData.length), [filteredThreads, filteredData]);
+  const treeMemberSummaries = useMemo(() => summarizeTreeMembers(filteredTreeMembers, filteredData), [filteredTreeMembers, filteredData]);
+
+  // Samples record CPU per core; "% of machine" needs the host's CPU count, so without one the
+  // dashboard stays on the per-core scale. The threshold is kept per core and shown in the current unit.
+  const cpuCount = useMemo(() => cpuCountOf(processData), [processData]);
+  const effectiveScale: CpuScale = cpuCount ? cpuScale : 'core';
+  const scaleFactor = cpuScaleFactor(effectiveScale, cpuCount);
+  const scaledData = useMemo(() => scaleCpu(filteredData, effectiveScale, cpuCount), [filteredData, effectiveScale, cpuCount]);
+  const maxThreshold = effectiveScale === 'machine' ? 100 : 100 * (cpuCount ?? 1);
+
+  // Percentiles and time accounting stay per core; the cards and panels convert them for display
+  const usage = useMemo(() => summarizeUsage(filteredData, cpuThreshold), [filteredData, cpuThreshold]);
+  const inScale = (value: number) => (value / scaleFactor).toFixed(1);
 
-  // Logic to detect threshold incidents (sustained for 3+ consecutive points)
+  // While streaming, evaluate all samples in memory so incidents don't scroll out with the rolling window.
+  // Rules hold per-core thresholds, so they run on the unscaled samples; the panels convert for display.
   const alertIncidents = useMemo(() => {
-    const incidents: {start: string, end: string, maxVal: number}[] = [];
-    let consecutiveCount = 0;
-    let currentStart: string | null = null;
-    let currentMax = 0;
-
-    filteredData.forEach((d, idx) => {
-        const total = d.cpu_user_percent + d.cpu_sys_percent;
-        if (total > cpuThreshold) {
-            if (consecutiveCount === 0) {
-                currentStart = d.timestamp;
-                currentMax = total;
-            } else {
-                currentMax = Math.max(currentMax, total);
-            }
-            consecutiveCount++;
-        } else {
-            if (consecutiveCount >= 3 && currentStart) {
-                 const prev = filteredData[idx-1];
-                 incidents.push({
-                     start: currentStart,
-                     end: prev.timestamp,
-                     maxVal: currentMax
-                 });
-            }
-            consecutiveCount = 0;
-            currentStart = null;
-            currentMax = 0;
-        }
-    });
-    
-    if (consecutiveCount >= 3 && currentStart) {
-         const last = filteredData[filteredData.length-1];
-         incidents.push({
-             start: currentStart,
-             end: last.timestamp,
-             maxVal: currentMax
-         });
-    }
-    return incidents;
-  }, [filteredData, cpuThreshold]);
+    return evaluateAlertRules(isStreaming ? processData : filteredData, alertRules, isStreaming);
+  }, [isStreaming, processData, filteredData, alertRules]);
+
+  const anomalies = useMemo(() => detectAnomalies(filteredData, anomalySensitivity), [filteredData, anomalySensitivity]);
+
+  const memoryTrend = useMemo(() => fitMemoryTrend(filteredData, memoryLimit), [filteredData, memoryLimit]);
+  const hasMemoryTrend = memoryTrend !== null && memoryTrend.verdict !== 'insufficient-data';
+
+  const ongoingIncidents = alertIncidents.filter(i => i.ongoing);
+
+  const handleAlertRulesChange = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
 
   const handleAnalyze = async () => {
     if (isStreaming) {
@@ -259,8 +470,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
     
     setIsAnalyzing(true);
     try {
-      const result = await analyzeCpuData(filteredData);
-      setAnalysis(result);
+      const result = await analyzeCpuData(filteredData, analysisSettings, { cpuThreshold, anomalies, threads: threadSummaries, cpuCount: cpuCount ?? undefined, usage, annotations: windowAnnotations, dataQuality });
+      recordAnalysis(result);
     } catch (e) {
       console.error(e);
     } finally {
@@ -268,6 +479,20 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
     }
   };
 
+  // Rule-based analysis needs no network, so it is always available and instant
+  const handleOfflineAnalyze = () => {
+    if (isStreaming) {
+      if (!confirm("Analyzing will pause the live stream. Continue?")) return;
+      setIsStreaming(false);
+    }
+    recordAnalysis(analyzeHeuristically(filteredData, { cpuThreshold, anomalies, threads: threadSummaries, cpuCount: cpuCount ?? undefined, usage, annotations: windowAnnotations, dataQuality }));
+  };
+
+  const handleAnalysisSettingsChange = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+  };
+
   const handleSaveAnalysis = () => {
     if (analysis) {
       localStorage.setItem('cpu_analysis_result', JSON.stringify(analysis));
@@ -287,23 +512,246 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
     }
   };
 
+  const handleExportCsv = () => {
+    const pid = filteredData[0]?.pid ?? 'data';
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadTextFile(`process-${pid}-${stamp}.csv`, entriesToCsv(filteredData), 'text/csv');
+  };
+
+  // The charts are copied from the rendered page, so the report shows exactly the current view
+  const handleExportReport = () => {
+    const pid = filteredData[0]?.pid ?? 'data';
+    const generatedAt = new Date();
+    const stamp = generatedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    const command = filteredData.find(d => d.command)?.command;
+    const html = buildHtmlReport({
+      title: session?.name ?? `PID ${pid}`,
+      generatedAt,
+      data: filteredData,
+      stats: [
+        { label: 'Samples', value: usage.samples.toLocaleString() },
+        { label: 'Avg User CPU', value: `${inScale(usage.user.avg)}%`, detail: percentilesOf(usage.user, scaleFactor) },
+        { label: 'Avg System CPU', value: `${inScale(usage.sys.avg)}%`, detail: percentilesOf(usage.sys, scaleFactor) },
+        { label: 'Avg Total CPU', value: `${inScale(usage.total.avg)}%`, detail: percentilesOf(usage.total, scaleFactor) },
+        { label: 'Peak Total CPU', value: `${inScale(usage.total.peak)}%` },
+        { label: 'Avg Memory', value: usage.memory ? `${usage.memory.avg.toFixed(1)}%` : 'N/A', detail: usage.memory ? percentilesOf(usage.memory, 1) : undefined },
+        { label: 'CPU Time', value: `${usage.cpuSeconds.toFixed(1)} core-s`, detail: `over ${formatDuration(usage.windowSeconds)}` },
+        {
+          label: 'Above Threshold',
+          value: formatDuration(usage.secondsAboveThreshold),
+          detail: `${(usage.shareAboveThreshold * 100).toFixed(1)}% of the window`,
+        },
+        {
+          label: 'Memory Leak',
+          value: memoryTrend ? memoryTrend.verdict.replace('-', ' ') : 'N/A',
+          detail: hasMemoryTrend
+            ? `${memoryTrend!.slopePerHour >= 0 ? '+' : ''}${memoryTrend!.slopePerHour.toFixed(2)}%/h` +
+              (memoryTrend!.hoursToLimit !== null ? `, ${memoryLimit}% in ${formatHoursToLimit(memoryTrend!.hoursToLimit)}` : '')
+            : undefined,
+        },
+        {
+          label: 'Coverage',
+          value: `${(dataQuality.coverage * 100).toFixed(1)}%`,
+          detail: `${dataQuality.breaks.filter(b => b.kind === 'gap').length} gaps, ${dataQuality.breaks.filter(b => b.kind === 'restart').length} restarts`,
+        },
+        { label: 'CPU Anomalies', value: anomalies.length.toString() },
+        { label: 'Incidents', value: alertIncidents.length.toString() },
+      ],
+      settings: [
+        { label: 'PID', value: String(pid), detail: command },
+        {
+          label: 'Time Range',
+          value: filteredData.length > 0
+            ? `${formatDateTime(filteredData[0].timestamp, displayTimeZone)} – ${formatDateTime(filteredData[filteredData.length - 1].timestamp, displayTimeZone)}`
+            : 'No samples',
+          detail: `Filter: ${filterStart || 'start'} to ${filterEnd || 'end'}`,
+        },
+        { label: 'Time Zone', value: describeTimeZone(displayTimeZone) },
+        { label: 'CPU Scale', value: effectiveScale === 'machine' ? `% of machine (${cpuCount} CPUs)` : '% of one core' },
+        { label: 'CPU Threshold', value: `${formatThreshold(cpuThreshold / scaleFactor)}%` },
+        { label: 'Memory Limit', value: `${memoryLimit}%` },
+        { label: 'Anomaly Sensitivity', value: `|z| ≥ ${anomalySensitivity.toFixed(1)}` },
+      ],
+      charts: [
+        { title: 'CPU Usage Over Time', svg: serializeChartSvg(chartContainerRef.current) },
+        { title: 'Memory Usage Over Time', svg: serializeChartSvg(memChartRef.current) },
+        { title: 'Total CPU Distribution', svg: serializeChartSvg(distChartRef.current) },
+      ],
+      incidents: alertIncidents,
+      timeZone: displayTimeZone,
+      alertRules,
+      scaleFactor,
+      analysis,
+    });
+    downloadTextFile(`process-${pid}-${stamp}-report.html`, html, 'text/html');
+  };
+
+  // Charts get at most one point per horizontal pixel; stats and alerts above use the full-resolution filteredData
+  const chartWidth = useElementWidth(chartContainerRef);
+
   // Format timestamp for X-axis
-  const formattedData = useMemo(() => {
-      return filteredData.map(d => ({
+  const withTimeLabels = (points: CpuLogEntry[]) => points.map(d => ({
+      ...d,
+      timeLabel: formatTimeLabel(d.timestamp, displayTimeZone)
+  }));
+
+  const cpuChartData = useMemo(() => {
+      return withTimeLabels(lttb(scaledData, chartWidth, (_, i) => i, d => d.cpu_user_percent + d.cpu_sys_percent)).map(d => ({
+          ...d,
+          host_cpu: hostCpuIn(d, effectiveScale, cpuCount),
+      }));
+  }, [scaledData, chartWidth, effectiveScale, cpuCount, displayTimeZone]);
+  const hasHostCpu = cpuChartData.some(d => d.host_cpu !== undefined);
+
+  // Per core, a process on four busy cores reads 400%, so the axis grows in whole cores to fit it
+  const cpuAxisMax = useMemo(() => {
+      if (effectiveScale === 'machine') return 100;
+      const peak = cpuChartData.reduce((max, d) => Math.max(max, d.cpu_user_percent + d.cpu_sys_percent, d.host_cpu ?? 0), 0);
+      return Math.max(100, Math.ceil(peak / 100) * 100);
+  }, [cpuChartData, effectiveScale]);
+
+  // Anomalies are found on the full-resolution data, so snap each one to the nearest plotted points
+  const anomalyMarkers = useMemo(() => {
+      if (cpuChartData.length === 0) return [];
+      const times = cpuChartData.map(d => new Date(d.timestamp).getTime());
+      return [...anomalies]
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_ANOMALY_MARKERS)
+          .map(a => ({
+              ...a,
+              x1: cpuChartData[nearestIndex(times, a.start)].timeLabel,
+              x2: cpuChartData[nearestIndex(times, a.end)].timeLabel,
+          }));
+  }, [anomalies, cpuChartData]);
+
+  const memChartData = useMemo(() => {
+      const points = withTimeLabels(lttb(filteredData, chartWidth, (_, i) => i, d => d.memory_percent ?? 0));
+      if (!hasMemoryTrend) return points;
+      return points.map(d => ({
           ...d,
-          timeLabel: new Date(d.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
-      }))
-  }, [filteredData]);
-
-  const resetFilters = () => {
-      if (localData.length > 0) {
-        const formatForInput = (ts: string) => ts.length >= 16 ? ts.substring(0, 16) : ts;
-        setFilterStart(formatForInput(localData[0].timestamp));
-        setFilterEnd(formatForInput(localData[localData.length - 1].timestamp));
+          memory_trend: parseFloat(memoryTrendAt(memoryTrend!, new Date(d.timestamp).getTime()).toFixed(2))
+      }));
+  }, [filteredData, chartWidth, memoryTrend, displayTimeZone]);
+
+  const cpuAnnotationLines = useMemo(() => annotationLines(windowAnnotations, cpuChartData), [windowAnnotations, cpuChartData]);
+  const memAnnotationLines = useMemo(() => annotationLines(windowAnnotations, memChartData), [windowAnnotations, memChartData]);
+  const cpuBreakMarkers = useMemo(() => breakMarkers(dataQuality.breaks, cpuChartData), [dataQuality, cpuChartData]);
+  const memBreakMarkers = useMemo(() => breakMarkers(dataQuality.breaks, memChartData), [dataQuality, memChartData]);
+
+  // Mouse handling shared by the CPU and memory charts. While annotating, a click picks the time of
+  // the point under the cursor; otherwise dragging across a chart zooms both to the dragged range.
+  type ChartMouseState = { activeTooltipIndex?: number | string | null } | null;
+  const chartMouseHandlers = (chart: 'cpu' | 'memory', points: { timestamp: string }[]) => {
+      const indexOf = (state: ChartMouseState) => (state?.activeTooltipIndex == null ? null : Number(state.activeTooltipIndex));
+      return {
+          onClick: (state: ChartMouseState) => {
+              const index = indexOf(state);
+              if (!annotating || index === null || !points[index]) return;
+              setPendingAnnotation(points[index].timestamp);
+              setAnnotating(false);
+          },
+          onMouseDown: (state: ChartMouseState) => {
+              const index = indexOf(state);
+              if (annotating || isStreaming || index === null) return;
+              setZoomDrag({ chart, from: index, to: index });
+          },
+          onMouseMove: (state: ChartMouseState) => {
+              const index = indexOf(state);
+              if (zoomDrag?.chart !== chart || index === null || index === zoomDrag.to) return;
+              setZoomDrag({ ...zoomDrag, to: index });
+          },
+          onMouseUp: () => {
+              if (zoomDrag?.chart !== chart) return;
+              setZoomDrag(null);
+              const from = Math.min(zoomDrag.from, zoomDrag.to);
+              const to = Math.max(zoomDrag.from, zoomDrag.to);
+              if (from !== to && points[to]) zoomTo(points[from].timestamp, points[to].timestamp);
+          },
+          onMouseLeave: () => setZoomDrag(null),
+      };
+  };
+
+  const renderZoomDrag = (chart: 'cpu' | 'memory', points: { timeLabel: string }[]) => (
+      zoomDrag?.chart === chart && zoomDrag.from !== zoomDrag.to && points[zoomDrag.from] && points[zoomDrag.to] ? (
+          <ReferenceArea x1={points[zoomDrag.from].timeLabel} x2={points[zoomDrag.to].timeLabel} className="fill-blue-400/20" />
+      ) : null
+  );
+
+  // Lines still run across a break, so it is shaded; a restart also gets a line naming the new PID
+  const renderBreakMarkers = (markers: ReturnType<typeof breakMarkers>) => markers.map(b => (
+      <React.Fragment key={b.index}>
+          {b.x1 !== b.x2
+              ? <ReferenceArea x1={b.x1} x2={b.x2} className="fill-slate-400/15" />
+              : b.kind === 'gap' && <ReferenceLine x={b.x2} stroke="#64748b" strokeDasharray="2 2" />}
+          {b.kind === 'restart' && (
+              <ReferenceLine
+                  x={b.x2}
+                  stroke="#a78bfa"
+                  strokeDasharray="4 2"
+                  label={{ value: `PID ${b.toPid}`, fill: '#a78bfa', fontSize: 10, position: 'insideBottomRight' }}
+              />
+          )}
+      </React.Fragment>
+  ));
+
+  const renderAnnotationLines = (lines: ReturnType<typeof annotationLines>) => lines.map(a => (
+      <React.Fragment key={a.id}>
+          <ReferenceLine
+              x={a.x}
+              stroke={annotationColor(a.kind)}
+              strokeDasharray="2 3"
+              label={{ value: a.label, fill: annotationColor(a.kind), fontSize: 10, position: 'insideTopLeft' }}
+          />
+      </React.Fragment>
+  ));
+
+  const resetFilters = (data = localData) => {
+      if (data.length > 0) {
+        setFilterStart(toFilterValue(data[0].timestamp, displayTimeZone));
+        setFilterEnd(toFilterValue(data[data.length - 1].timestamp, displayTimeZone));
       }
   };
 
+  // Zooms from the charts and the overview can be undone; typing into the filter inputs can't
+  const zoomTo = (start: string, end: string) => {
+      const range = { start: toFilterValue(start, displayTimeZone), end: toFilterValue(end, displayTimeZone) };
+      if (range.start === filterStart && range.end === filterEnd) return;
+      setZoomHistory(prev => pushZoomHistory(prev, { start: filterStart, end: filterEnd }));
+      setFilterStart(range.start);
+      setFilterEnd(range.end);
+  };
+
+  const undoZoom = () => {
+      const previous = zoomHistory[zoomHistory.length - 1];
+      if (!previous) return;
+      setZoomHistory(zoomHistory.slice(0, -1));
+      setFilterStart(previous.start);
+      setFilterEnd(previous.end);
+  };
+
+  // The filters keep covering the same instants; only the clock they are written on changes
+  const changeDisplayTimeZone = (zone: string) => {
+      const convert = (value: string) => convertFilterValue(value, displayTimeZone, zone);
+      setFilterStart(convert(filterStart));
+      setFilterEnd(convert(filterEnd));
+      setZoomHistory(prev => prev.map(range => ({ start: convert(range.start), end: convert(range.end) })));
+      setDisplayTimeZone(zone);
+  };
+
+  const showWholeCapture = () => {
+      if (localData.length > 0) zoomTo(localData[0].timestamp, localData[localData.length - 1].timestamp);
+  };
+
+  // Local servers can host any model, so name the model rather than the transport
+  const analyzerName = ANALYSIS_PROVIDERS[analysisSettings.provider].requiresEndpoint
+    ? analysisSettings.model || ANALYSIS_PROVIDERS[analysisSettings.provider].label
+    : ANALYSIS_PROVIDERS[analysisSettings.provider].label;
+
   const toggleStream = () => {
+    if (!isStreaming && !streamPid) {
+      alert("Enter the PID of a running process to go live.");
+      return;
+    }
     setIsStreaming(!isStreaming);
   };
 
@@ -314,7 +762,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
         <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <button 
-              onClick={onReset}
+              onClick={handleBack}
               className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors"
               title="Go Back"
             >
@@ -327,14 +775,41 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                 ) : (
                     <Activity className="text-blue-400" size={20} />
                 )}
-                Process Analysis {isStreaming && <span className="text-xs bg-red-500 text-white px-2 py-0.5 rounded-full animate-pulse">LIVE</span>}
+                Process Analysis {isStreaming && (
+                  <span className={`text-xs text-white px-2 py-0.5 rounded-full animate-pulse ${streamStatus === 'live' ? 'bg-red-500' : 'bg-yellow-600'}`}>
+                    {STREAM_STATUS_LABEL[streamStatus]}
+                  </span>
+                )}
               </h1>
-              <p className="text-xs text-slate-400 font-mono">PID: {initialData[0]?.pid || 'Unknown'} • {stats.count} Samples</p>
+              <p className="text-xs text-slate-400 font-mono">
+                {session && <span className="font-sans text-slate-300">{session.name} • </span>}
+                PID: {(isStreaming ? streamPid : localData[0]?.pid) || 'Unknown'} • {usage.samples} Samples
+              </p>
             </div>
           </div>
           
           <div className="flex items-center gap-3">
              {/* Streaming Toggle */}
+             <input
+                type="number"
+                min="1"
+                value={streamPid || ''}
+                onChange={(e) => setStreamPid(Number(e.target.value))}
+                disabled={isStreaming}
+                placeholder="PID"
+                title="PID to stream from the local collector"
+                className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-sm font-mono text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+             />
+             <button
+                onClick={() => setStreamTree(!streamTree)}
+                disabled={isStreaming}
+                className={`p-2 rounded-lg border transition-colors disabled:opacity-50 ${
+                    streamTree ? 'bg-blue-900/30 text-blue-300 border-blue-800' : 'text-slate-400 border-slate-700 hover:text-white hover:bg-slate-800'
+                }`}
+                title={streamTree ? 'Streaming the process and all its children' : 'Stream only this process (click to include its children)'}
+             >
+                <GitFork size={16} />
+             </button>
              <button
                 onClick={toggleStream}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all border ${
@@ -358,6 +833,26 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
               </button>
             )}
 
+            <button
+                onClick={handleExportCsv}
+                disabled={filteredData.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-800 transition-colors border border-transparent hover:border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Export the samples in the current time range as CSV"
+            >
+                <FileDown size={18} />
+                <span className="hidden sm:inline">Export CSV</span>
+            </button>
+
+            <button
+                onClick={handleExportReport}
+                disabled={filteredData.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-800 transition-colors border border-transparent hover:border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Download a self-contained HTML report; print it to save as PDF"
+            >
+                <FileText size={18} />
+                <span className="hidden sm:inline">Report</span>
+            </button>
+
             {analysis && (
                <button
                   onClick={handleSaveAnalysis}
@@ -369,6 +864,33 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                </button>
             )}
 
+            <button
+                onClick={handleOfflineAnalyze}
+                disabled={filteredData.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-800 transition-colors border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Rule-based analysis that runs locally without AI"
+            >
+                <Gauge size={16} />
+                <span className="hidden sm:inline">Offline Analysis</span>
+            </button>
+
+            <div className="relative flex items-center">
+            <button
+                onClick={() => setShowAnalysisSettings(!showAnalysisSettings)}
+                className={`p-2 rounded-lg transition-colors border ${showAnalysisSettings ? 'bg-slate-700 text-white border-slate-600' : 'text-slate-400 hover:text-white hover:bg-slate-800 border-transparent'}`}
+                title="Analysis provider settings"
+            >
+                <Settings2 size={18} />
+            </button>
+            {showAnalysisSettings && (
+                <AnalysisSettingsPanel
+                    settings={analysisSettings}
+                    onChange={handleAnalysisSettingsChange}
+                    onClose={() => setShowAnalysisSettings(false)}
+                />
+            )}
+            </div>
+
             <button
                 onClick={handleAnalyze}
                 disabled={isAnalyzing || filteredData.length === 0}
@@ -383,7 +905,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                 ) : (
                 <BrainCircuit size={16} />
                 )}
-                {analysis ? 'Re-Analyze' : 'Analyze with Gemini'}
+                {analysis ? 'Re-Analyze' : `Analyze with ${analyzerName}`}
             </button>
           </div>
         </div>
@@ -403,6 +925,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                     <label className="absolute -top-2 left-2 text-[10px] bg-slate-800 px-1 text-slate-400">Start Time</label>
                     <input 
                         type="datetime-local" 
+                        step="1"
                         className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
                         value={filterStart}
                         onChange={(e) => setFilterStart(e.target.value)}
@@ -413,40 +936,107 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                     <label className="absolute -top-2 left-2 text-[10px] bg-slate-800 px-1 text-slate-400">End Time</label>
                     <input 
                         type="datetime-local" 
+                        step="1"
                         className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
                         value={filterEnd}
                         onChange={(e) => setFilterEnd(e.target.value)}
                     />
                 </div>
+                <TimeZoneSelect value={displayTimeZone} onChange={changeDisplayTimeZone} title="Time zone for chart labels and the time range" />
             </div>
 
             <div className="flex items-center gap-2 border-l border-slate-700 pl-4 ml-2 border-r pr-4 mr-2 pointer-events-auto">
-                <span className="text-sm font-medium text-slate-400 whitespace-nowrap">Alert Limit:</span>
+                <span className="text-sm font-medium text-slate-400 whitespace-nowrap" title="Used by the analyzers">CPU Threshold:</span>
                 <div className="relative flex items-center">
                     <input 
                         type="number" 
                         min="1" 
-                        max="100"
-                        value={cpuThreshold}
-                        onChange={(e) => setCpuThreshold(Math.min(100, Math.max(1, Number(e.target.value))))}
+                        max={maxThreshold}
+                        value={formatThreshold(cpuThreshold / scaleFactor)}
+                        onChange={(e) => setCpuThreshold(Math.min(maxThreshold, Math.max(1, Number(e.target.value))) * scaleFactor)}
                         className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
                     />
                     <span className="ml-2 text-slate-500 text-sm">%</span>
                 </div>
             </div>
 
+            <button
+                onClick={() => setShowAlertRules(!showAlertRules)}
+                className={`flex items-center gap-1 text-xs px-3 py-2 rounded transition-colors pointer-events-auto ml-auto ${showAlertRules ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+            >
+                <BellRing size={14} />
+                Alert Rules ({alertRules.filter(r => r.enabled).length})
+            </button>
+
+            <div className="relative pointer-events-auto">
+                <button
+                    onClick={() => setShowShareLink(!showShareLink)}
+                    className={`flex items-center gap-1 text-xs px-3 py-2 rounded transition-colors ${showShareLink ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                    title="Copy a link to this time range and threshold"
+                >
+                    <Share2 size={14} />
+                    Share
+                </button>
+                {showShareLink && (
+                    <ShareLinkPanel
+                        view={{ filterStart, filterEnd, cpuThreshold, cpuScale, timeZone: displayTimeZone, sessionId: session?.id }}
+                        data={filteredData}
+                        onClose={() => setShowShareLink(false)}
+                    />
+                )}
+            </div>
+
             <button 
-                onClick={resetFilters}
-                className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-2 rounded hover:bg-slate-700 transition-colors ml-auto"
+                onClick={showWholeCapture}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-2 rounded hover:bg-slate-700 transition-colors"
             >
                 <X size={14} />
                 Reset Filters
             </button>
         </div>
         
+        {showAlertRules && <AlertRulesPanel rules={alertRules} onChange={handleAlertRulesChange} scaleFactor={scaleFactor} />}
+
+        {!isStreaming && (
+            <ZoomOverview
+                data={processData}
+                width={chartWidth}
+                filterStart={filterStart}
+                filterEnd={filterEnd}
+                timeZone={displayTimeZone}
+                onZoom={zoomTo}
+                historyLength={zoomHistory.length}
+                onUndo={undoZoom}
+                onReset={showWholeCapture}
+            />
+        )}
+
         {isStreaming && (
             <div className="text-center -mt-2 text-xs text-yellow-500/70 animate-pulse">
-                Stream Active: Displaying last {MAX_HISTORY} seconds of data. Time filters disabled.
+                {streamStatus === 'reconnecting'
+                  ? 'Connection to the collector lost. Reconnecting...'
+                  : `Stream Active: Displaying last ${MAX_HISTORY} samples of PID ${streamPid}. Time filters disabled.`}
+            </div>
+        )}
+
+        {/* Process Exit Banner */}
+        {exitInfo && (
+            <div className="bg-slate-800 border border-slate-600 rounded-xl p-4 flex items-center gap-4">
+                <div className="p-3 bg-slate-700 rounded-lg text-slate-300 shrink-0">
+                    <PowerOff size={20} />
+                </div>
+                <p className="flex-1 text-sm text-slate-300">
+                    {exitInfo.reason === 'not-found'
+                      ? <>No process with PID <span className="font-mono font-bold">{exitInfo.pid}</span> was found on the collector host.</>
+                      : <>Process <span className="font-mono font-bold">{exitInfo.pid}</span> exited at {formatTimeLabel(exitInfo.timestamp, displayTimeZone)}. The captured samples are kept below.</>}
+                </p>
+                <button
+                    onClick={() => setExitInfo(null)}
+                    className="p-1 text-slate-500 hover:text-white rounded hover:bg-slate-700 transition-colors"
+                    title="Dismiss"
+                >
+                    <X size={16} />
+                </button>
             </div>
         )}
 
@@ -458,68 +1048,130 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                 </div>
                 <div className="flex-1">
                     <h3 className="text-lg font-bold text-red-400 flex items-center gap-2">
-                        High CPU Usage Detected
+                        Alert Rules Triggered
                         <span className="text-xs font-normal bg-red-500/20 px-2 py-0.5 rounded-full border border-red-500/30">
                             {alertIncidents.length} Incident{alertIncidents.length > 1 ? 's' : ''}
                         </span>
                     </h3>
                     <p className="text-slate-300 text-sm mt-1">
-                        Process exceeded the <span className="font-mono font-bold text-red-300">{cpuThreshold}%</span> threshold 
-                        for sustained periods (3+ consecutive samples).
+                        {(['HIGH', 'MEDIUM', 'LOW'] as const)
+                          .map(severity => [severity, alertIncidents.filter(i => i.severity === severity).length] as const)
+                          .filter(([, count]) => count > 0)
+                          .map(([severity, count]) => `${count} ${severity.toLowerCase()}`)
+                          .join(', ')} severity. See the incident table below for details.
                     </p>
-                    <div className="mt-3 text-xs text-red-300/70 font-mono bg-red-950/30 p-2 rounded inline-block border border-red-900/30">
-                        Most recent: {new Date(alertIncidents[alertIncidents.length-1].start).toLocaleTimeString()} 
-                        {' '}-{' '}
-                        {new Date(alertIncidents[alertIncidents.length-1].end).toLocaleTimeString()}
-                        <span className="ml-2 text-red-400 font-bold">
-                            (Peak: {alertIncidents[alertIncidents.length-1].maxVal.toFixed(1)}%)
-                        </span>
-                    </div>
+                    {ongoingIncidents.length > 0 && (
+                        <div className="mt-3 text-xs text-red-300/70 font-mono bg-red-950/30 p-2 rounded inline-block border border-red-900/30">
+                            Active now: {ongoingIncidents.map(i => i.ruleName).join(', ')}
+                        </div>
+                    )}
                 </div>
             </div>
         )}
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
           <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 relative overflow-hidden">
             <div className="absolute top-0 right-0 p-4 opacity-10">
                 <Activity size={48} />
             </div>
             <p className="text-slate-400 text-sm font-medium">Avg User CPU</p>
-            <p className="text-3xl font-bold text-blue-400 mt-1">{stats.avgUser}%</p>
+            <p className="text-3xl font-bold text-blue-400 mt-1">{inScale(usage.user.avg)}%</p>
+            <p className="text-xs text-slate-500 mt-1 font-mono">p95 {inScale(usage.user.p95)}% • p99 {inScale(usage.user.p99)}%</p>
           </div>
           <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 relative overflow-hidden">
             <div className="absolute top-0 right-0 p-4 opacity-10">
                 <Activity size={48} />
             </div>
             <p className="text-slate-400 text-sm font-medium">Avg System CPU</p>
-            <p className="text-3xl font-bold text-rose-400 mt-1">{stats.avgSys}%</p>
+            <p className="text-3xl font-bold text-rose-400 mt-1">{inScale(usage.sys.avg)}%</p>
+            <p className="text-xs text-slate-500 mt-1 font-mono">p95 {inScale(usage.sys.p95)}% • p99 {inScale(usage.sys.p99)}%</p>
           </div>
           <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 relative overflow-hidden">
             <div className="absolute top-0 right-0 p-4 opacity-10">
                 <Activity size={48} />
             </div>
             <p className="text-slate-400 text-sm font-medium">Peak Total CPU</p>
-            <p className="text-3xl font-bold text-emerald-400 mt-1">{stats.maxTotal}%</p>
+            <p className="text-3xl font-bold text-emerald-400 mt-1">{inScale(usage.total.peak)}%</p>
+            <p className="text-xs text-slate-500 mt-1 font-mono">p50 {inScale(usage.total.p50)}% • p95 {inScale(usage.total.p95)}%</p>
           </div>
           <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 relative overflow-hidden">
             <div className="absolute top-0 right-0 p-4 opacity-10">
                 <Activity size={48} />
             </div>
             <p className="text-slate-400 text-sm font-medium">Avg Memory</p>
-            <p className="text-3xl font-bold text-purple-400 mt-1">{stats.avgMem}%</p>
+            <p className="text-3xl font-bold text-purple-400 mt-1">{usage.memory ? `${usage.memory.avg.toFixed(1)}%` : 'N/A'}</p>
+            {usage.memory && <p className="text-xs text-slate-500 mt-1 font-mono">p95 {usage.memory.p95.toFixed(1)}% • peak {usage.memory.peak.toFixed(1)}%</p>}
+          </div>
+          <div className={`p-6 rounded-xl border relative overflow-hidden ${
+            memoryTrend?.verdict === 'leak' ? 'bg-red-900/20 border-red-800' :
+            memoryTrend?.verdict === 'possible-leak' ? 'bg-yellow-900/20 border-yellow-800' :
+            'bg-slate-800 border-slate-700'
+          }`}>
+            <div className="absolute top-0 right-0 p-4 opacity-10">
+                <TrendingUp size={48} />
+            </div>
+            <p className="text-slate-400 text-sm font-medium">Memory Leak</p>
+            <p className={`text-3xl font-bold mt-1 ${
+              memoryTrend?.verdict === 'leak' ? 'text-red-400' :
+              memoryTrend?.verdict === 'possible-leak' ? 'text-yellow-400' :
+              'text-slate-200'
+            }`}>
+              {!memoryTrend ? 'N/A' : {
+                leak: 'Likely',
+                'possible-leak': 'Possible',
+                stable: 'None',
+                'insufficient-data': 'Too short',
+              }[memoryTrend.verdict]}
+            </p>
+            {hasMemoryTrend && (
+              <p className="text-xs text-slate-400 mt-1 font-mono">
+                {memoryTrend!.slopePerHour >= 0 ? '+' : ''}{memoryTrend!.slopePerHour.toFixed(2)}%/h
+                {memoryTrend!.hoursToLimit !== null && ` • ${memoryLimit}% in ${formatHoursToLimit(memoryTrend!.hoursToLimit)}`}
+              </p>
+            )}
           </div>
         </div>
 
         {/* CPU Chart */}
-        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-3 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
           <h3 className="text-lg font-semibold text-slate-200 mb-6 flex items-center gap-2">
              CPU Usage Over Time 
              {isStreaming && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"/>}
+             <span className="ml-auto flex items-center gap-4 text-xs font-normal text-slate-500">
+                {cpuChartData.length < filteredData.length && (
+                    <span title="Downsampled with LTTB; zoom in for full resolution">
+                        {cpuChartData.length.toLocaleString()} of {filteredData.length.toLocaleString()} points
+                    </span>
+                )}
+                <span
+                    className="flex rounded-lg border border-slate-700 overflow-hidden"
+                    title={cpuCount ? 'Unit for CPU charts, stats and the threshold' : 'This capture has no CPU count, so CPU is shown per core'}
+                >
+                    {(['core', 'machine'] as CpuScale[]).map(scale => (
+                        <button
+                            key={scale}
+                            onClick={() => setCpuScale(scale)}
+                            disabled={!cpuCount}
+                            className={`px-2 py-1 transition-colors disabled:cursor-not-allowed ${
+                                effectiveScale === scale ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white enabled:hover:bg-slate-700/50'
+                            }`}
+                        >
+                            {scale === 'core' ? '% of 1 core' : `% of machine${cpuCount ? ` (${cpuCount} CPUs)` : ''}`}
+                        </button>
+                    ))}
+                </span>
+             </span>
           </h3>
-          <div className="h-80 w-full">
+          <div className="h-80 w-full" ref={chartContainerRef}>
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={formattedData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <AreaChart
+                data={cpuChartData}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                {...chartMouseHandlers('cpu', cpuChartData)}
+                className={annotating ? 'cursor-crosshair' : 'cursor-col-resize select-none'}
+              >
                 <defs>
                   <linearGradient id="colorUser" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.4}/>
@@ -542,7 +1194,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                     fontSize={12} 
                     tickLine={false} 
                     unit="%"
-                    domain={[0, 100]}
+                    domain={[0, cpuAxisMax]}
                 />
                 <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
                 <Tooltip 
@@ -570,17 +1222,85 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                     isAnimationActive={!isStreaming}
                     animationDuration={500}
                 />
+                {hasHostCpu && (
+                    <Area
+                        type="monotone"
+                        dataKey="host_cpu"
+                        stroke="#94a3b8"
+                        strokeDasharray="4 3"
+                        fill="none"
+                        name="Host CPU"
+                        isAnimationActive={!isStreaming}
+                        animationDuration={500}
+                    />
+                )}
+                <ReferenceLine y={cpuThreshold / scaleFactor} ifOverflow="extendDomain" stroke="#f59e0b" strokeDasharray="3 3" strokeOpacity={0.6} />
+                {anomalyMarkers.map(m => (
+                    <React.Fragment key={m.startIndex}>
+                        {m.x1 !== m.x2 && (
+                            <ReferenceArea
+                                x1={m.x1}
+                                x2={m.x2}
+                                className={m.kind === 'spike' ? 'fill-orange-400/15' : 'fill-sky-400/15'}
+                            />
+                        )}
+                        <ReferenceDot
+                            x={m.x1}
+                            y={Math.min(cpuAxisMax, m.peak / scaleFactor)}
+                            r={4}
+                            fill={m.kind === 'spike' ? '#fb923c' : '#38bdf8'}
+                            stroke="#0f172a"
+                        />
+                    </React.Fragment>
+                ))}
+                {renderBreakMarkers(cpuBreakMarkers)}
+                {renderAnnotationLines(cpuAnnotationLines)}
+                {renderZoomDrag('cpu', cpuChartData)}
               </AreaChart>
             </ResponsiveContainer>
           </div>
         </div>
+        <AnomalyPanel
+            anomalies={anomalies}
+            sensitivity={anomalySensitivity}
+            onSensitivityChange={setAnomalySensitivity}
+            timeZone={displayTimeZone}
+            scaleFactor={scaleFactor}
+        />
+        </div>
 
         {/* Memory Chart */}
         <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
-          <h3 className="text-lg font-semibold text-slate-200 mb-6">Memory Usage Over Time</h3>
-          <div className="h-80 w-full">
+          <h3 className="text-lg font-semibold text-slate-200 mb-6 flex items-center gap-2">
+             Memory Usage Over Time
+             <span className="ml-auto flex items-center gap-4 text-xs font-normal text-slate-500">
+                {memChartData.length < filteredData.length && (
+                    <span title="Downsampled with LTTB; zoom in for full resolution">
+                        {memChartData.length.toLocaleString()} of {filteredData.length.toLocaleString()} points
+                    </span>
+                )}
+                <label className="flex items-center gap-2" title="Memory % the leak projection runs to, e.g. a cgroup limit">
+                    Limit
+                    <input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={memoryLimit}
+                        onChange={(e) => setMemoryLimit(Math.min(100, Math.max(1, Number(e.target.value))))}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                    />
+                    %
+                </label>
+             </span>
+          </h3>
+          <div className="h-80 w-full" ref={memChartRef}>
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={formattedData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <ComposedChart
+                data={memChartData}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                {...chartMouseHandlers('memory', memChartData)}
+                className={annotating ? 'cursor-crosshair' : 'cursor-col-resize select-none'}
+              >
                 <defs>
                   <linearGradient id="colorMem" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#c084fc" stopOpacity={0.4}/>
@@ -615,60 +1335,74 @@ const Dashboard: React.FC<DashboardProps> = ({ data: initialData, onReset }) =>
                     isAnimationActive={!isStreaming}
                     animationDuration={500}
                 />
-              </AreaChart>
+                {hasMemoryTrend && (
+                    <Line
+                        type="linear"
+                        dataKey="memory_trend"
+                        stroke="#facc15"
+                        strokeDasharray="6 4"
+                        dot={false}
+                        name="Baseline Trend"
+                        isAnimationActive={false}
+                    />
+                )}
+                {memoryLimit < 100 && (
+                    <ReferenceLine y={memoryLimit} ifOverflow="extendDomain" stroke="#ef4444" strokeDasharray="3 3" label={{ value: `Limit ${memoryLimit}%`, fill: '#ef4444', fontSize: 10, position: 'insideTopRight' }} />
+                )}
+                {renderBreakMarkers(memBreakMarkers)}
+                {renderAnnotationLines(memAnnotationLines)}
+                {renderZoomDrag('memory', memChartData)}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
 
+        <DataQualityPanel quality={dataQuality} timeZone={displayTimeZone} onZoom={zoomTo} />
+
+        <AnnotationPanel
+            annotations={annotations}
+            armed={annotating}
+            onArmedChange={setAnnotating}
+            pendingTimestamp={pendingAnnotation}
+            onCancelPending={() => setPendingAnnotation(null)}
+            onAdd={(added) => setAnnotations(prev => [...prev, ...added])}
+            onRemove={(id) => setAnnotations(prev => prev.filter(a => a.id !== id))}
+            timeZone={displayTimeZone}
+        />
+
+        <DistributionPanel
+            data={filteredData}
+            usage={usage}
+            scaleFactor={scaleFactor}
+            cpuThreshold={cpuThreshold}
+            animate={!isStreaming}
+            chartRef={distChartRef}
+        />
+
+        <ThreadBreakdown
+            processData={filteredData}
+            threadData={filteredThreads}
+            summaries={threadSummaries}
+            width={chartWidth}
+            timeZone={displayTimeZone}
+            animate={!isStreaming}
+        />
+
+        <ProcessTreePanel
+            aggregates={filteredData}
+            members={filteredTreeMembers}
+            summaries={treeMemberSummaries}
+            width={chartWidth}
+            timeZone={displayTimeZone}
+            animate={!isStreaming}
+        />
+
+        <ExtendedMetricsPanels data={filteredData} width={chartWidth} timeZone={displayTimeZone} animate={!isStreaming} />
+
+        {alertIncidents.length > 0 && <IncidentTable incidents={alertIncidents} timeZone={displayTimeZone} scaleFactor={scaleFactor} />}
+
         {/* AI Analysis Report */}
-        {analysis && (
-          <div className="animate-fade-in-up">
-            <div className={`rounded-xl border p-6 ${
-              analysis.severity === 'HIGH' ? 'bg-red-900/20 border-red-800' :
-              analysis.severity === 'MEDIUM' ? 'bg-yellow-900/20 border-yellow-800' :
-              'bg-emerald-900/20 border-emerald-800'
-            }`}>
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-xl font-bold flex items-center gap-2">
-                  <BrainCircuit size={24} className={
-                     analysis.severity === 'HIGH' ? 'text-red-400' :
-                     analysis.severity === 'MEDIUM' ? 'text-yellow-400' :
-                     'text-emerald-400'
-                  } />
-                  AI Performance Report
-                </h3>
-                <span className={`px-3 py-1 rounded-full text-xs font-bold tracking-wide ${
-                     analysis.severity === 'HIGH' ? 'bg-red-500/20 text-red-300' :
-                     analysis.severity === 'MEDIUM' ? 'bg-yellow-500/20 text-yellow-300' :
-                     'bg-emerald-500/20 text-emerald-300'
-                }`}>
-                  SEVERITY: {analysis.severity}
-                </span>
-              </div>
-              
-              <div className="space-y-4">
-                <div className="bg-slate-900/50 p-4 rounded-lg border border-white/5">
-                  <h4 className="text-sm text-slate-400 uppercase tracking-wider font-semibold mb-2">Summary</h4>
-                  <p className="text-slate-200 leading-relaxed">{analysis.summary}</p>
-                </div>
-                
-                <div>
-                  <h4 className="text-sm text-slate-400 uppercase tracking-wider font-semibold mb-2">Recommendations</h4>
-                  <ul className="grid gap-2">
-                    {analysis.recommendations.map((rec, idx) => (
-                      <li key={idx} className="flex items-start gap-3 bg-slate-900/30 p-3 rounded border border-white/5">
-                        <span className="flex-shrink-0 w-5 h-5 rounded-full bg-blue-500/20 text-blue-400 flex items-center justify-center text-xs mt-0.5">
-                          {idx + 1}
-                        </span>
-                        <span className="text-slate-300">{rec}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
+        {analysis && <AnalysisReport analysis={analysis} />}
       </main>
     </div>
   );
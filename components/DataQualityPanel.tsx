@@ -0,0 +1,81 @@
+import React from 'react';
+import { DataQualitySummary } from '../types';
+import { GAP_FACTOR, IRREGULAR_TOLERANCE } from '../utils/dataQuality';
+import { formatDuration, formatTimeLabel } from '../utils/time';
+import { CheckCircle2, AlertTriangle, RotateCcw, Unplug } from 'lucide-react';
+
+interface DataQualityPanelProps {
+  quality: DataQualitySummary;
+  timeZone: string;
+  onZoom: (start: string, end: string) => void;
+}
+
+// Breaks listed; the counts above always cover all of them
+const MAX_ROWS = 100;
+
+// Sub-second periods are common, which formatDuration would round away
+const formatPeriod = (seconds: number) => (seconds < 60 ? `${parseFloat(seconds.toFixed(2))}s` : formatDuration(seconds));
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ quality, timeZone, onZoom }) => {
+  const gaps = quality.breaks.filter(b => b.kind === 'gap').length;
+  const restarts = quality.breaks.length - gaps;
+  const clean = quality.breaks.length === 0 && quality.duplicates === 0 && quality.outOfOrder === 0 && quality.irregularIntervals === 0;
+
+  const stats = [
+    { label: 'Sampling period', value: quality.medianIntervalSeconds > 0 ? formatPeriod(quality.medianIntervalSeconds) : 'N/A', title: 'Median time between samples' },
+    { label: 'Coverage', value: `${(quality.coverage * 100).toFixed(1)}%`, title: 'Share of the range not inside a gap' },
+    { label: 'Gaps', value: gaps, title: `No samples for more than ${GAP_FACTOR}× the sampling period` },
+    { label: 'Restarts', value: restarts, title: 'A different PID took over' },
+    { label: 'Irregular', value: quality.irregularIntervals, title: `Intervals more than ${IRREGULAR_TOLERANCE * 100}% off the sampling period` },
+    { label: 'Duplicates', value: quality.duplicates, title: 'Samples with the same timestamp as the one before' },
+    { label: 'Out of order', value: quality.outOfOrder, title: 'Samples recorded before the one preceding them; they are drawn in time order' },
+  ];
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-xl">
+      <h3 className="text-sm font-semibold text-slate-200 flex items-center gap-2">
+        {clean
+          ? <CheckCircle2 size={16} className="text-emerald-400" />
+          : <AlertTriangle size={16} className="text-yellow-400" />}
+        Data Quality
+        <span className="text-xs font-normal text-slate-500">
+          {clean ? 'Evenly sampled from one process' : `${gaps + restarts} break${gaps + restarts === 1 ? '' : 's'}, ${formatDuration(quality.gapSeconds)} without samples`}
+        </span>
+      </h3>
+
+      <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2 text-center">
+        {stats.map(s => (
+          <div key={s.label} className="bg-slate-900/50 rounded-lg p-2 border border-slate-700/50" title={s.title}>
+            <p className={`text-sm font-mono ${typeof s.value === 'number' && s.value > 0 ? 'text-yellow-300' : 'text-slate-200'}`}>{s.value}</p>
+            <p className="text-[10px] text-slate-500 uppercase tracking-wide">{s.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {quality.breaks.length > 0 && (
+        <ul className="mt-3 max-h-40 overflow-y-auto space-y-1 text-xs">
+          {quality.breaks.slice(0, MAX_ROWS).map(b => (
+            <li key={b.index}>
+              <button
+                onClick={() => onZoom(b.start, b.end)}
+                className="w-full flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-700/40 text-left"
+                title="Zoom to this break"
+              >
+                {b.kind === 'restart'
+                  ? <RotateCcw size={12} className="text-violet-400 shrink-0" />
+                  : <Unplug size={12} className="text-slate-400 shrink-0" />}
+                <span className="font-mono text-slate-400">{formatTimeLabel(b.start, timeZone)} – {formatTimeLabel(b.end, timeZone)}</span>
+                <span className="text-slate-300">
+                  {b.kind === 'restart' ? `PID ${b.fromPid} → ${b.toPid}` : 'No samples'}
+                </span>
+                <span className="ml-auto font-mono text-slate-500">{formatPeriod(b.seconds)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
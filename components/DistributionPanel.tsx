@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { CpuLogEntry, DistributionSummary, UsageSummary } from '../types';
+import { histogram } from '../utils/stats';
+import { formatDuration } from '../utils/time';
+import { BarChart3 } from 'lucide-react';
+
+interface DistributionPanelProps {
+  data: CpuLogEntry[];
+  usage: UsageSummary; // Per core, like the samples
+  scaleFactor: number; // Divides per-core values into the dashboard's CPU unit
+  cpuThreshold: number; // Per core
+  animate: boolean;
+  chartRef?: React.Ref<HTMLDivElement>;
+}
+
+const BIN_COUNT = 20;
+
+const PERCENTILE_KEYS: (keyof DistributionSummary)[] = ['p50', 'p90', 'p95', 'p99', 'peak'];
+
+// Histogram and CDF of total CPU, with percentiles and time spent above the threshold
+const DistributionPanel: React.FC<DistributionPanelProps> = ({ data, usage, scaleFactor, cpuThreshold, animate, chartRef }) => {
+  const bins = useMemo(() => histogram(
+    data.map(d => (d.cpu_user_percent + d.cpu_sys_percent) / scaleFactor),
+    BIN_COUNT,
+    100
+  ).map(bin => ({
+    ...bin,
+    label: `${bin.from.toFixed(0)}-${bin.to.toFixed(0)}%`,
+    share: parseFloat((bin.share * 100).toFixed(2)),
+    cumulative: parseFloat((bin.cumulative * 100).toFixed(2)),
+  })), [data, scaleFactor]);
+
+  if (data.length === 0) return null;
+
+  const rows: { label: string; summary: DistributionSummary | null; scaled: boolean }[] = [
+    { label: 'User', summary: usage.user, scaled: true },
+    { label: 'System', summary: usage.sys, scaled: true },
+    { label: 'Total', summary: usage.total, scaled: true },
+    { label: 'Memory', summary: usage.memory, scaled: false },
+  ];
+  // The axis is categorical, so the threshold is marked on the bin it falls in
+  const threshold = cpuThreshold / scaleFactor;
+  const thresholdBin = bins.find(bin => threshold >= bin.from && threshold < bin.to);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-3 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+        <h3 className="text-lg font-semibold text-slate-200 mb-6 flex items-center gap-2">
+          <BarChart3 size={18} className="text-slate-400" />
+          Total CPU Distribution
+        </h3>
+        <div className="h-72 w-full" ref={chartRef}>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={bins} margin={{ top: 10, right: 0, left: 0, bottom: 0 }}>
+              <XAxis dataKey="label" stroke="#64748b" fontSize={11} tickLine={false} minTickGap={20} />
+              <YAxis yAxisId="share" stroke="#64748b" fontSize={12} tickLine={false} unit="%" />
+              <YAxis yAxisId="cdf" orientation="right" stroke="#64748b" fontSize={12} tickLine={false} unit="%" domain={[0, 100]} />
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+                formatter={(v) => `${v}%`}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar yAxisId="share" dataKey="share" name="Share of samples" fill="#3b82f6" fillOpacity={0.6} isAnimationActive={animate} />
+              <Line yAxisId="cdf" type="monotone" dataKey="cumulative" name="Cumulative (CDF)" stroke="#10b981" dot={false} isAnimationActive={animate} />
+              {thresholdBin && (
+                <ReferenceLine yAxisId="share" x={thresholdBin.label} stroke="#f59e0b" strokeDasharray="3 3" label={{ value: 'Threshold', fill: '#f59e0b', fontSize: 10, position: 'insideTopRight' }} />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl flex flex-col gap-5">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200 mb-3">Percentiles</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                <th className="py-1.5 pr-3 font-medium"></th>
+                {PERCENTILE_KEYS.map(key => <th key={key} className="py-1.5 pr-3 font-medium">{key}</th>)}
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-300">
+              {rows.map(({ label, summary, scaled }) => (
+                <tr key={label} className="border-t border-slate-700/50">
+                  <td className="py-1.5 pr-3 font-sans text-slate-400">{label}</td>
+                  {PERCENTILE_KEYS.map(key => (
+                    <td key={key} className="py-1.5 pr-3">
+                      {summary ? `${(summary[key] / (scaled ? scaleFactor : 1)).toFixed(1)}%` : '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3" title="User + system CPU time, in core-seconds">
+            <p className="text-xs text-slate-500">CPU Time</p>
+            <p className="text-xl font-semibold text-slate-200 font-mono">{usage.cpuSeconds.toFixed(1)}s</p>
+            <p className="text-xs text-slate-500">over {formatDuration(usage.windowSeconds)}</p>
+          </div>
+          <div className={`rounded-lg p-3 border ${usage.secondsAboveThreshold > 0 ? 'bg-amber-900/20 border-amber-800/60' : 'bg-slate-900/50 border-slate-700/50'}`}>
+            <p className="text-xs text-slate-500">Above {+threshold.toFixed(1)}%</p>
+            <p className="text-xl font-semibold text-slate-200 font-mono">{formatDuration(usage.secondsAboveThreshold)}</p>
+            <p className="text-xs text-slate-500">{(usage.shareAboveThreshold * 100).toFixed(1)}% of the window</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DistributionPanel;
@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CpuLogEntry, ExtendedMetricField } from '../types';
+import { lttb } from '../utils/downsample';
+import { formatTimeLabel } from '../utils/time';
+
+interface ExtendedMetricsPanelsProps {
+  data: CpuLogEntry[];
+  width: number; // Target point count, as for the CPU and memory charts
+  animate: boolean;
+  timeZone: string;
+}
+
+interface PanelSeries {
+  field: ExtendedMetricField;
+  name: string;
+  color: string;
+  rightAxis?: boolean; // For series orders of magnitude smaller than their neighbour
+}
+
+interface MetricPanel {
+  title: string;
+  series: PanelSeries[];
+  format: (value: number) => string;
+}
+
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+
+const formatBytes = (bytes: number) => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 100 || unit === 0 ? 0 : 1)} ${BYTE_UNITS[unit]}`;
+};
+
+const formatCount = (value: number) => (value >= 1000 ? `${(value / 1000).toFixed(1)}k` : `${Math.round(value * 10) / 10}`);
+
+const PANELS: MetricPanel[] = [
+  {
+    title: 'Disk I/O',
+    series: [
+      { field: 'read_bytes_per_sec', name: 'Read', color: '#38bdf8' },
+      { field: 'write_bytes_per_sec', name: 'Write', color: '#f97316' },
+    ],
+    format: v => `${formatBytes(v)}/s`,
+  },
+  {
+    title: 'Context Switches',
+    series: [
+      { field: 'voluntary_ctx_switches_per_sec', name: 'Voluntary', color: '#a3e635' },
+      { field: 'nonvoluntary_ctx_switches_per_sec', name: 'Involuntary', color: '#f43f5e' },
+    ],
+    format: v => `${formatCount(v)}/s`,
+  },
+  {
+    title: 'Page Faults',
+    series: [
+      { field: 'minor_faults_per_sec', name: 'Minor', color: '#c084fc' },
+      { field: 'major_faults_per_sec', name: 'Major (right axis)', color: '#facc15', rightAxis: true },
+    ],
+    format: v => `${formatCount(v)}/s`,
+  },
+  {
+    title: 'Threads & Open FDs',
+    series: [
+      { field: 'threads', name: 'Threads', color: '#38bdf8' },
+      { field: 'fd_count', name: 'Open FDs', color: '#fb923c' },
+    ],
+    format: formatCount,
+  },
+  {
+    title: 'Resident Memory',
+    series: [{ field: 'rss_bytes', name: 'RSS', color: '#c084fc' }],
+    format: formatBytes,
+  },
+];
+
+const hasSeries = (data: CpuLogEntry[], panel: MetricPanel) =>
+  data.some(d => panel.series.some(s => d[s.field] !== undefined));
+
+const MetricChart: React.FC<{ panel: MetricPanel; data: CpuLogEntry[]; width: number; animate: boolean; timeZone: string }> = ({ panel, data, width, animate, timeZone }) => {
+  // Downsample on this panel's own metrics so their bursts survive, rather than on CPU
+  const points = useMemo(() => lttb<CpuLogEntry>(
+    data,
+    width,
+    (_, i) => i,
+    d => panel.series.reduce((sum, s) => sum + (d[s.field] ?? 0), 0)
+  ).map(d => ({
+    ...d,
+    timeLabel: formatTimeLabel(d.timestamp, timeZone),
+  })), [data, width, panel, timeZone]);
+  const hasRightAxis = panel.series.some(s => s.rightAxis);
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+      <h3 className="text-lg font-semibold text-slate-200 mb-6">{panel.title}</h3>
+      <div className="h-56 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points} margin={{ top: 10, right: hasRightAxis ? 0 : 30, left: 10, bottom: 0 }}>
+            <XAxis dataKey="timeLabel" stroke="#64748b" fontSize={12} tickLine={false} minTickGap={30} />
+            <YAxis yAxisId="left" stroke="#64748b" fontSize={12} tickLine={false} tickFormatter={panel.format} width={70} />
+            {hasRightAxis && (
+              <YAxis yAxisId="right" orientation="right" stroke="#64748b" fontSize={12} tickLine={false} tickFormatter={panel.format} width={60} />
+            )}
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+              formatter={(v) => panel.format(Number(v))}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {panel.series.filter(s => data.some(d => d[s.field] !== undefined)).map(s => (
+              <Line
+                key={s.field}
+                yAxisId={s.rightAxis ? 'right' : 'left'}
+                type="monotone"
+                dataKey={s.field}
+                name={s.name}
+                stroke={s.color}
+                dot={false}
+                connectNulls
+                isAnimationActive={animate}
+                animationDuration={500}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+// Panels for the optional /proc counters; each one only appears when the data has its fields
+const ExtendedMetricsPanels: React.FC<ExtendedMetricsPanelsProps> = ({ data, width, animate, timeZone }) => {
+  const visible = useMemo(() => PANELS.filter(panel => hasSeries(data, panel)), [data]);
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {visible.map(panel => (
+        <MetricChart key={panel.title} panel={panel} data={data} width={width} animate={animate} timeZone={timeZone} />
+      ))}
+    </div>
+  );
+};
+
+export default ExtendedMetricsPanels;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertIncident } from '../types';
+import { ALERT_METRICS, alertValueIn } from '../services/alertService';
+import { formatDuration, formatTimeLabel } from '../utils/time';
+
+interface IncidentTableProps {
+  incidents: AlertIncident[];
+  timeZone: string;
+  scaleFactor: number; // Divides CPU peaks, which are per core
+}
+
+const SEVERITY_CLASS: Record<AlertIncident['severity'], string> = {
+  HIGH: 'bg-red-500/20 text-red-300',
+  MEDIUM: 'bg-yellow-500/20 text-yellow-300',
+  LOW: 'bg-emerald-500/20 text-emerald-300',
+};
+
+const IncidentTable: React.FC<IncidentTableProps> = ({ incidents, timeZone, scaleFactor }) => (
+  <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+    <h3 className="text-lg font-semibold text-slate-200 mb-4 flex items-center gap-2">
+      Incidents
+      <span className="text-xs font-normal text-slate-500">{incidents.length} in range</span>
+    </h3>
+    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-slate-800">
+          <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+            <th className="py-2 pr-4 font-medium">Severity</th>
+            <th className="py-2 pr-4 font-medium">Rule</th>
+            <th className="py-2 pr-4 font-medium">Start</th>
+            <th className="py-2 pr-4 font-medium">End</th>
+            <th className="py-2 pr-4 font-medium">Duration</th>
+            <th className="py-2 pr-4 font-medium">Samples</th>
+            <th className="py-2 font-medium">Peak</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-slate-300">
+          {incidents.map((incident, idx) => (
+            <tr key={`${incident.ruleId}-${incident.start}-${idx}`} className="border-t border-slate-700/50">
+              <td className="py-2 pr-4">
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wide font-sans ${SEVERITY_CLASS[incident.severity]}`}>
+                  {incident.severity}
+                </span>
+              </td>
+              <td className="py-2 pr-4 font-sans">{incident.ruleName}</td>
+              <td className="py-2 pr-4">{formatTimeLabel(incident.start, timeZone)}</td>
+              <td className="py-2 pr-4">
+                {incident.ongoing ? <span className="text-yellow-400 font-sans">ongoing</span> : formatTimeLabel(incident.end, timeZone)}
+              </td>
+              <td className="py-2 pr-4">{formatDuration(incident.durationSec)}</td>
+              <td className="py-2 pr-4">{incident.samples}</td>
+              <td className="py-2">
+                {alertValueIn(incident.metric, incident.peak, scaleFactor).toFixed(incident.metric === 'sys-user-ratio' ? 2 : 1)}{ALERT_METRICS[incident.metric].unit}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default IncidentTable;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ParseReport, RejectReason } from '../types';
+import { LOG_FORMAT_LABELS } from '../utils/parser';
+import { AlertTriangle, CheckCircle2, ArrowRight, X } from 'lucide-react';
+
+interface ParseReportPanelProps {
+  report: ParseReport;
+  onContinue?: () => void; // Omitted when nothing was accepted
+  onDismiss: () => void;
+}
+
+// Rows rendered per list; the counts above always cover everything
+const MAX_ROWS = 200;
+
+const REASON_LABELS: Record<RejectReason, string> = {
+  'invalid-json': 'Bad JSON',
+  'missing-field': 'Missing field',
+  'wrong-type': 'Wrong type',
+  'out-of-range': 'Out-of-range percent',
+};
+
+const ParseReportPanel: React.FC<ParseReportPanelProps> = ({ report, onContinue, onDismiss }) => {
+  const [tab, setTab] = useState<'rejected' | 'coerced'>(report.rejected.length > 0 ? 'rejected' : 'coerced');
+
+  const reasonCounts = report.rejected.reduce((acc, r) => {
+    acc[r.reason] = (acc[r.reason] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<RejectReason, number>>);
+
+  // Repeated coercions are listed once with a count
+  const coercedCount = report.coerced.reduce((s, c) => s + (c.count ?? 1), 0);
+
+  const rejectedPercent = report.totalLines > 0 ? (report.rejected.length / report.totalLines) * 100 : 0;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg overflow-hidden animate-fade-in">
+      <div className="p-4 bg-slate-900/50 border-b border-slate-700 flex justify-between items-center">
+        <h2 className="font-semibold text-slate-200 flex items-center gap-2">
+          {report.rejected.length > 0
+            ? <AlertTriangle size={18} className="text-yellow-400" />
+            : <CheckCircle2 size={18} className="text-emerald-400" />}
+          Import Report
+          {report.format && (
+            <span className="text-xs font-mono bg-slate-700 text-emerald-300 px-1.5 py-0.5 rounded">{LOG_FORMAT_LABELS[report.format]}</span>
+          )}
+        </h2>
+        <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white rounded hover:bg-slate-700 transition-colors" title="Back to editing">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+            <p className="text-2xl font-bold text-emerald-400">{report.accepted}</p>
+            <p className="text-xs text-slate-400">Samples accepted</p>
+          </div>
+          <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+            <p className="text-2xl font-bold text-red-400">{report.rejected.length}</p>
+            <p className="text-xs text-slate-400">Lines rejected ({rejectedPercent.toFixed(1)}% of {report.totalLines})</p>
+          </div>
+          <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+            <p className="text-2xl font-bold text-yellow-400">{coercedCount}</p>
+            <p className="text-xs text-slate-400">Fields coerced</p>
+          </div>
+        </div>
+
+        {report.rejected.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(reasonCounts) as RejectReason[]).map(reason => (
+              <span key={reason} className="bg-red-500/10 border border-red-500/30 text-red-300 px-2 py-0.5 rounded-full">
+                {REASON_LABELS[reason]}: {reasonCounts[reason]}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {(report.rejected.length > 0 || report.coerced.length > 0) && (
+          <div>
+            <div className="flex gap-1 mb-2 text-xs">
+              {(['rejected', 'coerced'] as const).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-3 py-1 rounded transition-colors ${tab === t ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {t === 'rejected' ? `Rejected (${report.rejected.length})` : `Coerced (${coercedCount})`}
+                </button>
+              ))}
+            </div>
+            <div className="max-h-64 overflow-y-auto border border-slate-700 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-900 text-slate-400 sticky top-0">
+                  <tr>
+                    <th className="text-left px-2 py-1 w-16">Line</th>
+                    <th className="text-left px-2 py-1 w-32">{tab === 'rejected' ? 'Reason' : 'Field'}</th>
+                    <th className="text-left px-2 py-1">Detail</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {tab === 'rejected'
+                    ? report.rejected.slice(0, MAX_ROWS).map((r, idx) => (
+                        <tr key={idx} className="align-top">
+                          <td className="px-2 py-1 font-mono text-slate-500">{r.line}</td>
+                          <td className="px-2 py-1 text-red-300">{REASON_LABELS[r.reason]}</td>
+                          <td className="px-2 py-1 text-slate-300">
+                            {r.detail}
+                            <div className="font-mono text-slate-500 truncate max-w-md" title={r.text}>{r.text}</div>
+                          </td>
+                        </tr>
+                      ))
+                    : report.coerced.slice(0, MAX_ROWS).map((c, idx) => (
+                        <tr key={idx} className="align-top">
+                          <td className="px-2 py-1 font-mono text-slate-500">{c.line}</td>
+                          <td className="px-2 py-1 font-mono text-yellow-300">{c.field}</td>
+                          <td className="px-2 py-1 text-slate-300">
+                            {c.detail}
+                            {(c.count ?? 1) > 1 && <span className="text-slate-500"> (and {c.count! - 1} more lines like it)</span>}
+                          </td>
+                        </tr>
+                      ))}
+                </tbody>
+              </table>
+              {(tab === 'rejected' ? report.rejected : report.coerced).length > MAX_ROWS && (
+                <p className="text-center text-xs text-slate-500 py-2">
+                  …and {(tab === 'rejected' ? report.rejected : report.coerced).length - MAX_ROWS} more
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 border border-slate-600 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors text-sm"
+          >
+            Back to Edit
+          </button>
+          {onContinue && (
+            <button
+              onClick={onContinue}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white py-2 px-4 rounded-lg font-medium transition-all shadow-lg shadow-blue-900/20 text-sm"
+            >
+              Continue with {report.accepted} samples
+              <ArrowRight size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParseReportPanel;
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CpuLogEntry, TreeMemberSummary } from '../types';
+import { lttb } from '../utils/downsample';
+import { averageExitedCpu } from '../utils/processTree';
+import { formatTimeLabel } from '../utils/time';
+import { GitFork, X } from 'lucide-react';
+
+interface ProcessTreePanelProps {
+  aggregates: CpuLogEntry[];
+  members: CpuLogEntry[];
+  summaries: TreeMemberSummary[];
+  width: number;
+  animate: boolean;
+  timeZone: string;
+}
+
+const memberKey = (d: { pid: number; command?: string }) => `${d.pid}:${d.command ?? ''}`;
+
+// Tree total over time, with the selected member's user/sys when a row is clicked
+const ProcessTreePanel: React.FC<ProcessTreePanelProps> = ({ aggregates, members, summaries, width, animate, timeZone }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const selectedSummary = summaries.find(s => memberKey(s) === selected) ?? null;
+  const exitedAvg = useMemo(() => averageExitedCpu(aggregates), [aggregates]);
+
+  const points = useMemo(() => {
+    const byTimestamp = new Map<string, CpuLogEntry>();
+    if (selected) members.forEach(d => { if (memberKey(d) === selected) byTimestamp.set(d.timestamp, d); });
+    return lttb<CpuLogEntry>(aggregates, width, (_, i) => i, d => d.cpu_user_percent + d.cpu_sys_percent).map(d => {
+      // Left empty while the member wasn't alive, so its lines break instead of dropping to zero
+      const member = byTimestamp.get(d.timestamp);
+      return {
+        timeLabel: formatTimeLabel(d.timestamp, timeZone),
+        total: parseFloat((d.cpu_user_percent + d.cpu_sys_percent).toFixed(2)),
+        exited: d.exited_cpu_percent ?? 0,
+        user: member?.cpu_user_percent ?? null,
+        sys: member?.cpu_sys_percent ?? null,
+      };
+    });
+  }, [aggregates, members, selected, width, timeZone]);
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-3 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+        <h3 className="text-lg font-semibold text-slate-200 mb-6 flex items-center gap-2">
+          <GitFork size={18} className="text-slate-400" />
+          Process Tree CPU
+          {selectedSummary && (
+            <span className="flex items-center gap-1 text-xs font-normal text-slate-400 bg-slate-900 border border-slate-700 rounded-full pl-2 pr-1 py-0.5">
+              <span className="font-mono">{selectedSummary.pid}</span>
+              <span className="max-w-[12rem] truncate">{selectedSummary.command}</span>
+              <button onClick={() => setSelected(null)} className="text-slate-500 hover:text-slate-200" title="Clear selection">
+                <X size={12} />
+              </button>
+            </span>
+          )}
+        </h3>
+        <div className="h-80 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <XAxis dataKey="timeLabel" stroke="#64748b" fontSize={12} tickLine={false} minTickGap={30} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} unit="%" />
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+                formatter={(v) => `${v}%`}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="monotone" dataKey="total" name="Tree Total" stroke="#94a3b8" dot={false} isAnimationActive={animate} animationDuration={500} />
+              <Line type="monotone" dataKey="exited" name="Exited Children" stroke="#f59e0b" strokeDasharray="4 3" dot={false} isAnimationActive={animate} animationDuration={500} />
+              {selectedSummary && (
+                <Line type="monotone" dataKey="user" name={`${selectedSummary.pid} User`} stroke="#3b82f6" dot={false} isAnimationActive={animate} animationDuration={500} />
+              )}
+              {selectedSummary && (
+                <Line type="monotone" dataKey="sys" name={`${selectedSummary.pid} System`} stroke="#f43f5e" dot={false} isAnimationActive={animate} animationDuration={500} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl flex flex-col">
+        <h3 className="text-lg font-semibold text-slate-200 mb-4 flex items-center gap-2">
+          Tree Members
+          <span className="text-xs font-normal text-slate-500">{summaries.length} in range • click to drill down</span>
+        </h3>
+        <div className="overflow-auto max-h-80">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-800">
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                <th className="py-2 pr-3 font-medium">Command</th>
+                <th className="py-2 pr-3 font-medium">PID</th>
+                <th className="py-2 pr-3 font-medium">PPID</th>
+                <th className="py-2 pr-3 font-medium">Avg</th>
+                <th className="py-2 pr-3 font-medium">Peak</th>
+                <th className="py-2 pr-3 font-medium">Share</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-300">
+              {summaries.map(member => {
+                const key = memberKey(member);
+                return (
+                  <tr
+                    key={key}
+                    onClick={() => setSelected(key === selected ? null : key)}
+                    className={`border-t border-slate-700/50 cursor-pointer ${key === selected ? 'bg-blue-900/30' : 'hover:bg-slate-700/40'}`}
+                    title={`Seen ${formatTimeLabel(member.firstSeen, timeZone)} - ${formatTimeLabel(member.lastSeen, timeZone)}`}
+                  >
+                    <td className="py-1.5 pr-3 font-sans text-slate-200 max-w-[10rem] truncate">{member.command}</td>
+                    <td className="py-1.5 pr-3">{member.pid}</td>
+                    <td className="py-1.5 pr-3 text-slate-500">{member.ppid ?? '-'}</td>
+                    <td className="py-1.5 pr-3">{member.avgTotal.toFixed(1)}%</td>
+                    <td className="py-1.5 pr-3">{member.peakTotal.toFixed(1)}%</td>
+                    <td className="py-1.5 pr-3">{(member.cpuShare * 100).toFixed(1)}%</td>
+                  </tr>
+                );
+              })}
+              {exitedAvg > 0 && (
+                <tr className="border-t border-slate-700/50 text-amber-300/90" title="CPU of children that exited between samples, read from their parent's reaped CPU time">
+                  <td className="py-1.5 pr-3 font-sans italic">Exited children</td>
+                  <td className="py-1.5 pr-3">-</td>
+                  <td className="py-1.5 pr-3">-</td>
+                  <td className="py-1.5 pr-3">{exitedAvg.toFixed(1)}%</td>
+                  <td className="py-1.5 pr-3">{aggregates.reduce((peak, d) => Math.max(peak, d.exited_cpu_percent ?? 0), 0).toFixed(1)}%</td>
+                  <td className="py-1.5 pr-3">-</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProcessTreePanel;
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CaptureSession } from '../types';
+import { deleteSession, listSessions, updateSession } from '../services/sessionService';
+import { Library, Search, FolderOpen, Pencil, Trash2, Check, X, GitCompare } from 'lucide-react';
+
+interface SessionLibraryProps {
+  onOpen: (session: CaptureSession) => void;
+  onCompare: (baseline: CaptureSession, candidate: CaptureSession) => void;
+}
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+
+interface SessionDraft {
+  name: string;
+  host: string;
+  tags: string;
+}
+
+const parseTags = (text: string) => [...new Set(text.split(',').map(t => t.trim()).filter(Boolean))];
+
+const matchesQuery = (session: CaptureSession, query: string) => {
+  const haystack = [session.name, session.host, session.command, session.pid?.toString(), ...session.tags]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(term => haystack.includes(term));
+};
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({ onOpen, onCompare }) => {
+  const [sessions, setSessions] = useState<CaptureSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SessionDraft>({ name: '', host: '', tags: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]); // Baseline first, then candidate
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => setError(`Session library unavailable: ${e instanceof Error ? e.message : 'IndexedDB error'}`));
+  }, []);
+
+  const visible = useMemo(
+    () => (query.trim() ? sessions.filter(s => matchesQuery(s, query.trim())) : sessions),
+    [sessions, query]
+  );
+
+  const startEditing = (session: CaptureSession) => {
+    setEditingId(session.id);
+    setDraft({ name: session.name, host: session.host ?? '', tags: session.tags.join(', ') });
+  };
+
+  const saveEdit = async () => {
+    if (!editingId || !draft.name.trim()) return;
+    const updated = await updateSession(editingId, {
+      name: draft.name.trim(),
+      host: draft.host.trim() || undefined,
+      tags: parseTags(draft.tags),
+    });
+    if (updated) setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: CaptureSession) => {
+    if (!confirm(`Delete "${session.name}" and its ${session.sampleCount.toLocaleString()} samples?`)) return;
+    await deleteSession(session.id);
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+    setCompareIds(prev => prev.filter(id => id !== session.id));
+  };
+
+  // Picking a third session replaces the candidate
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev.slice(0, 1), id]);
+  };
+
+  const handleCompare = () => {
+    const [baseline, candidate] = compareIds.map(id => sessions.find(s => s.id === id)!);
+    onCompare(baseline, candidate);
+  };
+
+  if (error) return <p className="text-xs text-slate-500 text-center">{error}</p>;
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+      <div className="p-4 bg-slate-900/50 border-b border-slate-700 flex items-center gap-4">
+        <h2 className="font-semibold text-purple-400 flex items-center gap-2">
+          <Library size={18} />
+          Session Library
+        </h2>
+        <span className="text-xs text-slate-500">{sessions.length} saved</span>
+        <button
+          onClick={handleCompare}
+          disabled={compareIds.length !== 2}
+          className="flex items-center gap-1 ml-auto px-3 py-1.5 text-xs text-orange-300 border border-orange-500/40 hover:bg-orange-500/10 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Pick a baseline and a candidate with the compare buttons below"
+        >
+          <GitCompare size={14} />
+          Compare {compareIds.length}/2
+        </button>
+        <div className="relative w-64">
+          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name, host, PID, command, tag"
+            className={`${inputClass} w-full pl-7`}
+          />
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-700/50 max-h-96 overflow-y-auto">
+        {visible.length === 0 && (
+          <li className="p-4 text-sm text-slate-500 text-center">No sessions match "{query}".</li>
+        )}
+        {visible.map(session => (
+          <li key={session.id} className="p-4 flex items-start gap-4 hover:bg-slate-900/30 transition-colors">
+            {editingId === session.id ? (
+              <div className="flex-1 grid sm:grid-cols-3 gap-2">
+                <input
+                  autoFocus
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                  placeholder="Name"
+                  className={inputClass}
+                />
+                <input
+                  value={draft.host}
+                  onChange={(e) => setDraft({ ...draft, host: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                  placeholder="Host"
+                  className={`${inputClass} font-mono`}
+                />
+                <input
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                  placeholder="Tags, comma separated"
+                  className={inputClass}
+                />
+              </div>
+            ) : (
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-200 truncate">{session.name}</p>
+                <p className="text-xs text-slate-500 font-mono truncate">
+                  {new Date(session.createdAt).toLocaleString()}
+                  {' • '}{session.sampleCount.toLocaleString()} samples
+                  {session.host && ` • ${session.host}`}
+                  {session.pid !== undefined && ` • PID ${session.pid}`}
+                  {session.command && ` • ${session.command}`}
+                  {session.analyses.length > 0 && ` • ${session.analyses.length} analys${session.analyses.length === 1 ? 'is' : 'es'}`}
+                </p>
+                {session.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {session.tags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => setQuery(tag)}
+                        className="text-[10px] bg-purple-500/10 text-purple-300 border border-purple-500/30 px-1.5 py-0.5 rounded-full hover:bg-purple-500/20"
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center gap-1 shrink-0">
+              {editingId === session.id ? (
+                <>
+                  <button onClick={saveEdit} className="p-1.5 text-emerald-400 hover:bg-slate-700 rounded transition-colors" title="Save">
+                    <Check size={16} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors" title="Cancel">
+                    <X size={16} />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onOpen(session)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+                  >
+                    <FolderOpen size={14} />
+                    Open
+                  </button>
+                  <button
+                    onClick={() => toggleCompare(session.id)}
+                    className={`flex items-center gap-1 px-2 py-1.5 text-xs rounded transition-colors ${
+                      compareIds.includes(session.id) ? 'bg-orange-500/20 text-orange-300' : 'text-slate-500 hover:text-white hover:bg-slate-700'
+                    }`}
+                    title="Select for before/after comparison"
+                  >
+                    <GitCompare size={14} />
+                    {compareIds[0] === session.id ? 'Baseline' : compareIds[1] === session.id ? 'Candidate' : ''}
+                  </button>
+                  <button onClick={() => startEditing(session)} className="p-1.5 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors" title="Rename / edit tags">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(session)} className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded transition-colors" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionLibrary;
@@ -1,140 +1,171 @@
-import React, { useState } from 'react';
-import { CpuLogEntry } from '../types';
-import { parseLogData, generateMockData } from '../utils/parser';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { CaptureSession, ColumnMapping, CpuLogEntry, DatasetSource, LogFormat, ParseResult } from '../types';
+import { parseLogData, generateMockData, detectLogFormat, LOG_FORMAT_LABELS } from '../utils/parser';
+import { guessColumnMapping, readDelimited, REQUIRED_FIELDS } from '../utils/formats/csv';
+import ColumnMappingPanel from './ColumnMappingPanel';
+import ParseReportPanel from './ParseReportPanel';
+import TimeZoneSelect from './TimeZoneSelect';
+import SessionLibrary from './SessionLibrary';
+import { USAGE, EXAMPLE_COMMAND } from '../collector/usage';
+import { importLogFile, ImportProgress, ImportTask } from '../services/importService';
+import { peekText } from '../utils/fileStream';
+import { LOCAL_TIME_ZONE } from '../utils/time';
+import { FileText, Upload, X } from 'lucide-react';
 
 interface SetupViewProps {
-  onDataLoaded: (data: CpuLogEntry[]) => void;
+  onDataLoaded: (data: CpuLogEntry[], source: DatasetSource) => void;
+  onStartLive: (pid: number) => void;
+  onOpenSession: (session: CaptureSession) => void;
+  onCompareSessions: (baseline: CaptureSession, candidate: CaptureSession) => void;
 }
 
-const PYTHON_SCRIPT = `
-import time
-import sys
-import json
-import os
-
-def get_total_memory():
-    try:
-        with open('/proc/meminfo', 'r') as f:
-            for line in f:
-                if line.startswith('MemTotal:'):
-                    return int(line.split()[1]) * 1024 # Convert to bytes
-    except:
-        return None
-
-def get_process_stats(pid):
-    try:
-        with open(f'/proc/{pid}/stat', 'r') as f:
-            content = f.read()
-            # Handle process names with spaces/parentheses
-            r_par = content.rfind(')')
-            if r_par == -1:
-                return None, None, None
-                
-            # Fields after process name. 
-            # Field indices in 'fields' list (0-based):
-            # 0: state (field 3 in man page)
-            # ...
-            # 11: utime (field 14)
-            # 12: stime (field 15)
-            # ...
-            # 21: rss (field 24)
-            fields = content[r_par+2:].split()
-            
-            utime = int(fields[11])
-            stime = int(fields[12])
-            rss_pages = int(fields[21])
-            
-            return utime, stime, rss_pages
-    except Exception:
-        return None, None, None
-
-def monitor(pid, interval=1.0):
-    # Get HZ (clock ticks per second)
-    try:
-        clk_tck = os.sysconf(os.sysconf_names['SC_CLK_TCK'])
-    except:
-        clk_tck = 100
-        
-    # Get Page Size
-    try:
-        page_size = os.sysconf('SC_PAGE_SIZE')
-    except:
-        page_size = 4096
-        
-    total_mem = get_total_memory() or 1 # Prevent division by zero
-
-    last_utime, last_stime, _ = get_process_stats(pid)
-    if last_utime is None:
-        print(json.dumps({"error": "Process not found"}))
-        return
-
-    print(f"Monitoring PID {pid}... Outputting JSON lines.")
-    
-    while True:
-        time.sleep(interval)
-        curr_utime, curr_stime, curr_rss = get_process_stats(pid)
-        
-        if curr_utime is None:
-            break
-            
-        # Calculate delta ticks
-        u_delta = curr_utime - last_utime
-        s_delta = curr_stime - last_stime
-        
-        # Convert to percentage of one CPU core
-        u_percent = (u_delta / clk_tck) / interval * 100
-        s_percent = (s_delta / clk_tck) / interval * 100
-        
-        # Calculate memory percentage
-        mem_percent = ((curr_rss * page_size) / total_mem) * 100
-        
-        log_entry = {
-            "timestamp": time.strftime("%Y-%m-%dT%H:%M:%S"),
-            "pid": pid,
-            "cpu_user_percent": round(u_percent, 2),
-            "cpu_sys_percent": round(s_percent, 2),
-            "memory_percent": round(mem_percent, 2)
-        }
-        
-        print(json.dumps(log_entry), flush=True)
-        
-        last_utime = curr_utime
-        last_stime = curr_stime
-
-if __name__ == "__main__":
-    if len(sys.argv) < 2:
-        print("Usage: python3 monitor.py <PID>")
-        sys.exit(1)
-    
-    monitor(int(sys.argv[1]))
-`;
-
-const SetupView: React.FC<SetupViewProps> = ({ onDataLoaded }) => {
+const ACCEPTED_FILES = '.jsonl,.json,.log,.txt,.csv,.tsv,.gz';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const SetupView: React.FC<SetupViewProps> = ({ onDataLoaded, onStartLive, onOpenSession, onCompareSessions }) => {
   const [logInput, setLogInput] = useState('');
+  const [livePid, setLivePid] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [parseResult, setParseResult] = useState<ParseResult | null>(null);
+  // How timestamps without an offset are read
+  const [sourceTimeZone, setSourceTimeZone] = useState(LOCAL_TIME_ZONE);
+  const [baseDate, setBaseDate] = useState(''); // For bare times of day; today when empty
+
+  // File upload: the first few KB are enough to detect the format; the rest is parsed in a worker
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [filePreview, setFilePreview] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const importTaskRef = useRef<ImportTask | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sourceText = selectedFile ? filePreview : logInput;
+  const detectedFormat = useMemo(() => sourceText.trim() ? detectLogFormat(sourceText) : null, [sourceText]);
+
+  // Only the header row is needed to offer the column choices
+  const csvHeaders = useMemo(
+    () => detectedFormat === 'csv' ? readDelimited(sourceText.trim().split('\n', 1)[0]).headers : [],
+    [detectedFormat, sourceText]
+  );
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+
+  useEffect(() => {
+    setColumnMapping(csvHeaders.length > 0 ? guessColumnMapping(csvHeaders) : null);
+  }, [csvHeaders.join('\u0000')]);
+
+  const handleCopyCommand = () => {
+    navigator.clipboard.writeText(EXAMPLE_COMMAND);
+    alert("Command copied to clipboard!");
+  };
+
+  // Cancel a running import if the view goes away
+  useEffect(() => () => importTaskRef.current?.cancel(), []);
+
+  const handleFileSelected = async (file: File) => {
+    setError(null);
+    setParseResult(null);
+    setSelectedFile(file);
+    setFilePreview('');
+    try {
+      setFilePreview(await peekText(file));
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : 'unknown error'}`);
+    }
+  };
+
+  const clearFile = () => {
+    setSelectedFile(null);
+    setFilePreview('');
+    setParseResult(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFileSelected(file);
+  };
+
+  const sourceFor = (format: LogFormat | null): DatasetSource => ({
+    name: selectedFile?.name ?? (format ? `Pasted ${LOG_FORMAT_LABELS[format]} log` : 'Pasted log'),
+    tags: format ? [format] : [],
+  });
+
+  const handleResult = (result: ParseResult) => {
+    if (result.data.length === 0 && result.report.format) {
+      setError(`Detected ${LOG_FORMAT_LABELS[result.report.format]} output but could not parse any samples. See the report below.`);
+    }
+    // Clean imports go straight through; anything dropped or altered is shown for review first
+    if (result.report.rejected.length === 0 && result.report.coerced.length === 0 && result.data.length > 0) {
+      onDataLoaded(result.data, sourceFor(result.report.format));
+      return;
+    }
+    setParseResult(result);
+  };
 
-  const handleCopyScript = () => {
-    navigator.clipboard.writeText(PYTHON_SCRIPT.trim());
-    alert("Script copied to clipboard!");
+  const handleCancelImport = () => {
+    importTaskRef.current?.cancel();
+    importTaskRef.current = null;
+    setImportProgress(null);
   };
 
-  const handleParse = () => {
+  const handleParse = async () => {
     setError(null);
-    if (!logInput.trim()) {
-      setError("Please paste some log data first.");
+    setParseResult(null);
+    if (!sourceText.trim()) {
+      setError(selectedFile ? "The selected file is empty." : "Please paste some log data first.");
+      return;
+    }
+    if (!detectedFormat) {
+      setError("Unrecognised format. Paste JSON lines, CSV/TSV or pidstat, top -b, ps or sar output.");
+      return;
+    }
+    if (detectedFormat === 'csv' && (!columnMapping || REQUIRED_FIELDS.some(field => !columnMapping[field]))) {
+      setError("Map the timestamp, user CPU and system CPU columns first.");
+      return;
+    }
+    const options = { columnMapping: columnMapping ?? undefined, timeZone: sourceTimeZone, baseDate: baseDate || undefined };
+
+    if (!selectedFile) {
+      handleResult(parseLogData(logInput, detectedFormat, options));
       return;
     }
-    const data = parseLogData(logInput);
-    if (data.length === 0) {
-      setError("Could not parse any valid JSON lines. Check the format.");
+
+    setImportProgress({ bytesRead: 0, totalBytes: selectedFile.size, accepted: 0 });
+    const task = importLogFile(selectedFile, detectedFormat, options, setImportProgress);
+    importTaskRef.current = task;
+    try {
+      const result = await task.result;
+      if (result) handleResult(result);
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : 'unknown error'}`);
+    } finally {
+      if (importTaskRef.current === task) {
+        importTaskRef.current = null;
+        setImportProgress(null);
+      }
+    }
+  };
+
+  const handleStartLive = () => {
+    setError(null);
+    const pid = parseInt(livePid, 10);
+    if (!Number.isInteger(pid) || pid <= 0) {
+      setError("Please enter a valid PID to monitor.");
       return;
     }
-    onDataLoaded(data);
+    onStartLive(pid);
   };
 
   const loadDemo = () => {
     const data = generateMockData();
-    onDataLoaded(data);
+    onDataLoaded(data, { name: 'Demo data', tags: ['demo'] });
   };
 
   return (
@@ -157,20 +188,21 @@ const SetupView: React.FC<SetupViewProps> = ({ onDataLoaded }) => {
               Capture Data
             </h2>
             <button 
-              onClick={handleCopyScript}
+              onClick={handleCopyCommand}
               className="text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 px-3 py-1 rounded transition-colors"
             >
-              Copy Python Script
+              Copy Command
             </button>
           </div>
           <div className="p-4 flex-1 bg-slate-950 relative group">
             <pre className="text-xs text-emerald-300 font-mono overflow-x-auto p-2 h-64 scrollbar-hide">
-              {PYTHON_SCRIPT.trim()}
+              {USAGE}
             </pre>
             <div className="absolute inset-0 bg-gradient-to-b from-transparent via-transparent to-slate-950/80 pointer-events-none" />
           </div>
-          <div className="p-4 text-sm text-slate-400 bg-slate-900/30">
-            <p>Run locally: <code className="bg-slate-700 px-1 rounded text-slate-200">python3 monitor.py &lt;PID&gt;</code></p>
+          <div className="p-4 text-sm text-slate-400 bg-slate-900/30 space-y-1">
+            <p>Run from this repo: <code className="bg-slate-700 px-1 rounded text-slate-200">{EXAMPLE_COMMAND}</code></p>
+            <p className="text-xs">Then drop <code className="bg-slate-700 px-1 rounded text-slate-200">run.jsonl</code> (or <code className="bg-slate-700 px-1 rounded text-slate-200">run.jsonl.gz</code>) on the right, or paste its contents.</p>
           </div>
         </div>
 
@@ -183,19 +215,116 @@ const SetupView: React.FC<SetupViewProps> = ({ onDataLoaded }) => {
             </h2>
           </div>
           <div className="p-4 flex-1 flex flex-col gap-4">
-            <textarea
-              className="w-full flex-1 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs font-mono text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
-              placeholder={`Paste JSON output here...\n{"timestamp": "...", "pid": 123, "cpu_user_percent": 12.5, "cpu_sys_percent": 1.2, "memory_percent": 0.5}\n...`}
-              value={logInput}
-              onChange={(e) => setLogInput(e.target.value)}
+            <div
+              className={`relative flex-1 flex flex-col min-h-[10rem] rounded-lg transition-colors ${isDragging ? 'ring-2 ring-emerald-500 bg-emerald-500/5' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              {selectedFile ? (
+                <div className="flex-1 bg-slate-900 border border-slate-700 rounded-lg p-4 flex flex-col justify-center gap-3">
+                  <div className="flex items-center gap-3">
+                    <FileText size={28} className="text-emerald-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-200 truncate" title={selectedFile.name}>{selectedFile.name}</p>
+                      <p className="text-xs text-slate-500">{formatBytes(selectedFile.size)}</p>
+                    </div>
+                    {!importProgress && (
+                      <button onClick={clearFile} className="p-1 text-slate-500 hover:text-white rounded hover:bg-slate-700 transition-colors" title="Remove file">
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                  {importProgress && (
+                    <div className="space-y-1">
+                      <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-emerald-500 transition-all"
+                          style={{ width: `${importProgress.totalBytes ? (importProgress.bytesRead / importProgress.totalBytes) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <div className="flex justify-between items-center text-[11px] text-slate-400">
+                        <span>
+                          {formatBytes(importProgress.bytesRead)} / {formatBytes(importProgress.totalBytes)} • {importProgress.accepted.toLocaleString()} samples
+                        </span>
+                        <button onClick={handleCancelImport} className="text-red-400 hover:text-red-300">Cancel</button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <textarea
+                  className="w-full flex-1 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs font-mono text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+                  placeholder={`Paste JSON lines, CSV/TSV or pidstat / top -b / ps / sar output here, or drop a file (.gz works too)...\n{"timestamp": "...", "pid": 123, "cpu_user_percent": 12.5, "cpu_sys_percent": 1.2, "memory_percent": 0.5}\n...`}
+                  value={logInput}
+                  onChange={(e) => {
+                    setLogInput(e.target.value);
+                    setParseResult(null);
+                  }}
+                />
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFileSelected(e.target.files[0])}
             />
+            {sourceText.trim() && (
+              <p className="text-xs text-slate-400">
+                Detected format:{' '}
+                {detectedFormat ? (
+                  <span className="font-mono bg-slate-700 text-emerald-300 px-1.5 py-0.5 rounded">{LOG_FORMAT_LABELS[detectedFormat]}</span>
+                ) : (
+                  <span className="text-yellow-400">unknown</span>
+                )}
+              </p>
+            )}
+            {sourceText.trim() && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+                <label className="flex items-center gap-2">
+                  Source time zone
+                  <TimeZoneSelect
+                    value={sourceTimeZone}
+                    onChange={setSourceTimeZone}
+                    title="Zone the capturing machine's clock was set to; used for timestamps without a UTC offset"
+                  />
+                </label>
+                <label className="flex items-center gap-2" title="Day that times without a date (e.g. 10:00:01) fall on; sysstat banners and log dates take precedence">
+                  Date for time-only values
+                  <input
+                    type="date"
+                    value={baseDate}
+                    onChange={(e) => setBaseDate(e.target.value)}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                  />
+                </label>
+              </div>
+            )}
+            {columnMapping && (
+              <ColumnMappingPanel headers={csvHeaders} mapping={columnMapping} onChange={setColumnMapping} />
+            )}
             {error && <p className="text-red-400 text-xs">{error}</p>}
             <div className="flex gap-3">
               <button
                 onClick={handleParse}
-                className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-2 px-4 rounded-lg font-medium transition-all shadow-lg shadow-blue-900/20"
+                disabled={!!importProgress}
+                className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-2 px-4 rounded-lg font-medium transition-all shadow-lg shadow-blue-900/20 disabled:opacity-50 disabled:cursor-wait"
+              >
+                {importProgress ? 'Importing...' : 'Visualize Data'}
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!importProgress}
+                className="flex items-center gap-2 px-4 py-2 border border-slate-600 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors disabled:opacity-50"
+                title="Upload a log file (.jsonl, .csv, .txt, .gz...)"
               >
-                Visualize Data
+                <Upload size={16} />
+                File
               </button>
               <button
                 onClick={loadDemo}
@@ -204,9 +333,37 @@ const SetupView: React.FC<SetupViewProps> = ({ onDataLoaded }) => {
                 Load Demo
               </button>
             </div>
+            <div className="flex gap-3 items-center pt-4 border-t border-slate-700">
+              <span className="text-xs text-slate-400 whitespace-nowrap">Or stream live:</span>
+              <input
+                type="number"
+                min="1"
+                placeholder="PID"
+                value={livePid}
+                onChange={(e) => setLivePid(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleStartLive()}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+              <button
+                onClick={handleStartLive}
+                className="px-4 py-2 border border-red-900/50 bg-red-900/20 hover:bg-red-900/40 text-red-400 rounded-lg transition-colors text-sm"
+              >
+                Go Live
+              </button>
+            </div>
           </div>
         </div>
       </div>
+
+      {parseResult && (
+        <ParseReportPanel
+          report={parseResult.report}
+          onContinue={parseResult.data.length > 0 ? () => onDataLoaded(parseResult.data, sourceFor(parseResult.report.format)) : undefined}
+          onDismiss={() => setParseResult(null)}
+        />
+      )}
+
+      <SessionLibrary onOpen={onOpenSession} onCompare={onCompareSessions} />
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { CpuLogEntry } from '../types';
+import { DashboardLinkState, encodeLinkData, formatLinkState, MAX_EMBEDDED_DATA_CHARS } from '../utils/urlState';
+import { Check, Link2, PackageOpen, X } from 'lucide-react';
+
+interface ShareLinkPanelProps {
+  view: DashboardLinkState; // Current filters, threshold, CPU scale and session id
+  data: CpuLogEntry[]; // Samples embedded by "Copy link with data"
+  onClose: () => void;
+}
+
+const linkFor = (state: DashboardLinkState) =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}${formatLinkState(state)}`;
+
+const ShareLinkPanel: React.FC<ShareLinkPanelProps> = ({ view, data, onClose }) => {
+  const [copied, setCopied] = useState<'view' | 'data' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+
+  const copy = async (link: string, kind: 'view' | 'data') => {
+    await navigator.clipboard.writeText(link);
+    setCopied(kind);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleCopyWithData = async () => {
+    setError(null);
+    setIsEncoding(true);
+    try {
+      const encoded = await encodeLinkData(data);
+      if (encoded.length > MAX_EMBEDDED_DATA_CHARS) {
+        setError(`${data.length.toLocaleString()} samples compress to ${encoded.length.toLocaleString()} characters, over the ${MAX_EMBEDDED_DATA_CHARS.toLocaleString()} limit. Narrow the time range and try again.`);
+        return;
+      }
+      // The recipient gets their own session, so the local id would mean nothing to them
+      await copy(linkFor({ ...view, sessionId: undefined, data: encoded }), 'data');
+    } catch (e) {
+      setError(`Could not build the link: ${e instanceof Error ? e.message : 'compression failed'}`);
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-slate-800 border border-slate-600 rounded-xl shadow-2xl p-4 space-y-3 z-20 animate-in fade-in zoom-in-95 duration-100">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-slate-200">Share This View</h3>
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-white rounded hover:bg-slate-700 transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <button
+        onClick={() => copy(linkFor(view), 'view')}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-200 bg-slate-900 border border-slate-700 hover:border-blue-500 rounded transition-colors"
+      >
+        {copied === 'view' ? <Check size={14} className="text-emerald-400" /> : <Link2 size={14} />}
+        Copy link
+      </button>
+      <p className="text-xs text-slate-500 -mt-1">
+        Time range and threshold{view.sessionId ? ', plus the library session, which only exists in this browser' : ''}.
+      </p>
+
+      <button
+        onClick={handleCopyWithData}
+        disabled={isEncoding || data.length === 0}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-200 bg-slate-900 border border-slate-700 hover:border-blue-500 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {copied === 'data' ? <Check size={14} className="text-emerald-400" /> : <PackageOpen size={14} />}
+        Copy link with data
+      </button>
+      <p className="text-xs text-slate-500 -mt-1">
+        Embeds the {data.length.toLocaleString()} samples in range, compressed, so the link opens anywhere. Small captures only.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ShareLinkPanel;
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CpuLogEntry, ThreadSummary } from '../types';
+import { buildThreadSeries, OTHER_THREADS_KEY } from '../utils/threads';
+import { formatTimeLabel } from '../utils/time';
+import { ArrowDown, ArrowUp, Layers } from 'lucide-react';
+
+interface ThreadBreakdownProps {
+  processData: CpuLogEntry[];
+  threadData: CpuLogEntry[];
+  summaries: ThreadSummary[];
+  width: number;
+  animate: boolean;
+  timeZone: string;
+}
+
+const TOP_THREADS = 8; // Threads stacked individually; the rest share one band
+const THREAD_COLORS = ['#3b82f6', '#f43f5e', '#10b981', '#f59e0b', '#a855f7', '#06b6d4', '#ec4899', '#84cc16'];
+const OTHER_COLOR = '#64748b';
+
+type SortKey = 'name' | 'tid' | 'avgUser' | 'avgSys' | 'avgTotal' | 'peakTotal' | 'activeShare' | 'cpuShare';
+
+const COLUMNS: { key: SortKey; label: string; format: (t: ThreadSummary) => string }[] = [
+  { key: 'name', label: 'Thread', format: t => t.name },
+  { key: 'tid', label: 'TID', format: t => `${t.tid}` },
+  { key: 'avgUser', label: 'Avg User', format: t => `${t.avgUser.toFixed(1)}%` },
+  { key: 'avgSys', label: 'Avg Sys', format: t => `${t.avgSys.toFixed(1)}%` },
+  { key: 'avgTotal', label: 'Avg Total', format: t => `${t.avgTotal.toFixed(1)}%` },
+  { key: 'peakTotal', label: 'Peak', format: t => `${t.peakTotal.toFixed(1)}%` },
+  { key: 'activeShare', label: 'Busy', format: t => `${(t.activeShare * 100).toFixed(0)}%` },
+  { key: 'cpuShare', label: 'Share', format: t => `${(t.cpuShare * 100).toFixed(1)}%` },
+];
+
+// Stacked CPU per thread plus a sortable table, shown when the capture has thread samples
+const ThreadBreakdown: React.FC<ThreadBreakdownProps> = ({ processData, threadData, summaries, width, animate, timeZone }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('avgTotal');
+  const [ascending, setAscending] = useState(false);
+
+  const series = useMemo(() => {
+    const { keys, points } = buildThreadSeries(processData, threadData, summaries, TOP_THREADS, width);
+    return {
+      keys,
+      points: points.map(p => ({
+        ...p,
+        timeLabel: formatTimeLabel(p.timestamp, timeZone),
+      })),
+    };
+  }, [processData, threadData, summaries, width, timeZone]);
+
+  const sorted = useMemo(() => {
+    const direction = ascending ? 1 : -1;
+    return [...summaries].sort((a, b) => {
+      const x = a[sortKey];
+      const y = b[sortKey];
+      return (typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number)) * direction;
+    });
+  }, [summaries, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'name' || key === 'tid');
+    }
+  };
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+      <div className="lg:col-span-3 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+        <h3 className="text-lg font-semibold text-slate-200 mb-6 flex items-center gap-2">
+          <Layers size={18} className="text-slate-400" />
+          CPU by Thread
+        </h3>
+        <div className="h-80 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={series.points} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <XAxis dataKey="timeLabel" stroke="#64748b" fontSize={12} tickLine={false} minTickGap={30} />
+              <YAxis stroke="#64748b" fontSize={12} tickLine={false} unit="%" />
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: 8, fontSize: 12 }}
+                formatter={(v) => `${v}%`}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {series.keys.map(({ key, label }, i) => {
+                const color = key === OTHER_THREADS_KEY ? OTHER_COLOR : THREAD_COLORS[i % THREAD_COLORS.length];
+                return (
+                  <Area
+                    key={key}
+                    type="monotone"
+                    dataKey={key}
+                    name={label}
+                    stackId="threads"
+                    stroke={color}
+                    fill={color}
+                    fillOpacity={0.35}
+                    isAnimationActive={animate}
+                    animationDuration={500}
+                  />
+                );
+              })}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl flex flex-col">
+        <h3 className="text-lg font-semibold text-slate-200 mb-4 flex items-center gap-2">
+          Top Threads
+          <span className="text-xs font-normal text-slate-500">{summaries.length} busy in range</span>
+        </h3>
+        <div className="overflow-auto max-h-80">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-slate-800">
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wider">
+                {COLUMNS.map(column => (
+                  <th key={column.key} className="py-2 pr-3 font-medium whitespace-nowrap">
+                    <button onClick={() => handleSort(column.key)} className="flex items-center gap-0.5 uppercase hover:text-slate-300">
+                      {column.label}
+                      {sortKey === column.key && (ascending ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-300">
+              {sorted.map(thread => (
+                <tr key={thread.tid} className="border-t border-slate-700/50">
+                  {COLUMNS.map(column => (
+                    <td key={column.key} className={`py-1.5 pr-3 whitespace-nowrap ${column.key === 'name' ? 'font-sans text-slate-200 max-w-[10rem] truncate' : ''}`}>
+                      {column.format(thread)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThreadBreakdown;
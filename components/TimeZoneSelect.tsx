@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { describeTimeZone, isValidTimeZone, LOCAL_TIME_ZONE } from '../utils/time';
+
+interface TimeZoneSelectProps {
+  value: string; // 'local', 'UTC' or an IANA zone name
+  onChange: (zone: string) => void;
+  title?: string;
+}
+
+const ZONE_NAMES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+// Local / UTC / custom zone picker; custom names are only applied once they are valid
+const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({ value, onChange, title }) => {
+  const isCustom = value !== LOCAL_TIME_ZONE && value !== 'UTC';
+  const [showCustom, setShowCustom] = useState(isCustom);
+  const [draft, setDraft] = useState(isCustom ? value : '');
+
+  useEffect(() => {
+    if (isCustom) {
+      setShowCustom(true);
+      setDraft(value);
+    }
+  }, [value]);
+
+  const draftValid = draft.trim() !== '' && isValidTimeZone(draft.trim());
+
+  return (
+    <span className="flex items-center gap-2" title={title}>
+      <select
+        value={showCustom ? 'custom' : value}
+        onChange={(e) => {
+          if (e.target.value === 'custom') {
+            setShowCustom(true);
+            return;
+          }
+          setShowCustom(false);
+          onChange(e.target.value);
+        }}
+        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+      >
+        <option value={LOCAL_TIME_ZONE}>{describeTimeZone(LOCAL_TIME_ZONE)}</option>
+        <option value="UTC">UTC</option>
+        <option value="custom">Other zone…</option>
+      </select>
+      {showCustom && (
+        <>
+          <input
+            list="time-zone-names"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              if (isValidTimeZone(e.target.value.trim())) onChange(e.target.value.trim());
+            }}
+            placeholder="e.g. America/New_York"
+            className={`w-44 bg-slate-900 border rounded px-2 py-1 text-sm text-slate-200 focus:outline-none ${
+              draft && !draftValid ? 'border-red-700 focus:border-red-500' : 'border-slate-700 focus:border-blue-500'
+            }`}
+          />
+          <datalist id="time-zone-names">
+            {ZONE_NAMES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+        </>
+      )}
+    </span>
+  );
+};
+
+export default TimeZoneSelect;
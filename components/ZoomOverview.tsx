@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, Brush, ResponsiveContainer } from 'recharts';
+import { CpuLogEntry } from '../types';
+import { lttb } from '../utils/downsample';
+import { inTimeOrder } from '../utils/dataQuality';
+import { filterBounds } from '../utils/zoom';
+import { formatTimeLabel } from '../utils/time';
+import { Undo2, ZoomOut } from 'lucide-react';
+
+interface ZoomOverviewProps {
+  data: CpuLogEntry[]; // The whole capture, not just the selected range
+  width: number;
+  filterStart: string;
+  filterEnd: string;
+  timeZone: string; // Display zone, which the filters are also read in
+  onZoom: (start: string, end: string) => void;
+  historyLength: number;
+  onUndo: () => void;
+  onReset: () => void;
+}
+
+// Whole-capture strip with a brush over the selected range. Dragging a handle zooms, dragging the
+// selection pans; the range is only applied on release so the dashboard doesn't recompute mid-drag.
+const ZoomOverview: React.FC<ZoomOverviewProps> = ({ data, width, filterStart, filterEnd, timeZone, onZoom, historyLength, onUndo, onReset }) => {
+  const points = useMemo(() => lttb<CpuLogEntry>(inTimeOrder(data), width, (_, i) => i, d => d.cpu_user_percent + d.cpu_sys_percent).map(d => ({
+    timestamp: d.timestamp,
+    timeLabel: formatTimeLabel(d.timestamp, timeZone),
+    total: parseFloat((d.cpu_user_percent + d.cpu_sys_percent).toFixed(2)),
+  })), [data, width, timeZone]);
+
+  const [startIndex, endIndex] = useMemo(() => {
+    const { startTs, endTs } = filterBounds(filterStart, filterEnd, timeZone);
+    const times = points.map(p => new Date(p.timestamp).getTime());
+    const first = times.findIndex(t => t >= startTs);
+    let last = times.length - 1;
+    while (last > 0 && times[last] > endTs) last--;
+    return first === -1 || first > last ? [0, Math.max(0, points.length - 1)] : [first, last];
+  }, [points, filterStart, filterEnd, timeZone]);
+
+  if (points.length < 2) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 px-4 pt-3 pb-2 shadow-xl">
+      <div className="flex items-center gap-3 text-xs text-slate-500 mb-1">
+        <span className="font-medium text-slate-400">Overview</span>
+        <span>Drag a handle to zoom, the selection to pan, or across either chart to zoom in</span>
+        <span className="ml-auto flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={historyLength === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white enabled:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Go back to the previous range"
+          >
+            <Undo2 size={14} />
+            Undo zoom{historyLength > 0 && ` (${historyLength})`}
+          </button>
+          <button
+            onClick={onReset}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+            title="Show the whole capture"
+          >
+            <ZoomOut size={14} />
+            Show all
+          </button>
+        </span>
+      </div>
+      <div className="h-16 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={points} margin={{ top: 0, right: 30, left: 30, bottom: 0 }}>
+            {/* Remount when the range changes elsewhere so both handles move to it */}
+            <Brush
+              key={`${startIndex}-${endIndex}`}
+              dataKey="timeLabel"
+              height={56}
+              stroke="#3b82f6"
+              fill="#0f172a"
+              travellerWidth={8}
+              startIndex={startIndex}
+              endIndex={endIndex}
+              onDragEnd={({ startIndex: from, endIndex: to }) => {
+                if (from === undefined || to === undefined || (from === startIndex && to === endIndex)) return;
+                onZoom(points[from].timestamp, points[to].timestamp);
+              }}
+            >
+              <AreaChart data={points}>
+                <Area type="monotone" dataKey="total" stroke="#64748b" fill="#334155" isAnimationActive={false} />
+              </AreaChart>
+            </Brush>
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ZoomOverview;
@@ -0,0 +1,19 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Tracks the rendered width of an element, e.g. to size chart data to the available pixels
+export const useElementWidth = (ref: RefObject<HTMLElement | null>, fallback = 1000): number => {
+  const [width, setWidth] = useState(fallback);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    setWidth(element.clientWidth || fallback);
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry.contentRect.width > 0) setWidth(Math.round(entry.contentRect.width));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return width;
+};
@@ -0,0 +1,153 @@
+import { AlertComparator, AlertIncident, AlertMetric, AlertRule, CpuLogEntry } from "../types";
+
+const RULES_KEY = 'cpu_alert_rules';
+
+// `perCore` metrics are CPU percentages, which rules store and are evaluated in per core
+export const ALERT_METRICS: Record<AlertMetric, { label: string; unit: string; perCore?: boolean }> = {
+  total: { label: 'Total CPU', unit: '%', perCore: true },
+  user: { label: 'User CPU', unit: '%', perCore: true },
+  sys: { label: 'System CPU', unit: '%', perCore: true },
+  memory: { label: 'Memory', unit: '%' },
+  'sys-user-ratio': { label: 'Sys / User ratio', unit: 'x' },
+  'total-rate': { label: 'Total CPU rate of change', unit: '%/s', perCore: true },
+};
+
+// A threshold, hysteresis or peak of `metric` in the dashboard's CPU unit (see cpuScaleFactor)
+export const alertValueIn = (metric: AlertMetric, value: number, scaleFactor: number) =>
+  ALERT_METRICS[metric].perCore ? value / scaleFactor : value;
+
+export const ALERT_COMPARATORS: AlertComparator[] = ['>', '>=', '<', '<='];
+
+// Matches the dashboard's original alert: total CPU above 80% for about three 1s samples
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'high-cpu',
+    name: 'High CPU',
+    enabled: true,
+    metric: 'total',
+    comparator: '>',
+    threshold: 80,
+    minDurationSec: 3,
+    hysteresis: 5,
+    severity: 'HIGH',
+  },
+];
+
+export const createAlertRule = (): AlertRule => ({
+  id: crypto.randomUUID(),
+  name: 'New rule',
+  enabled: true,
+  metric: 'total',
+  comparator: '>',
+  threshold: 50,
+  minDurationSec: 10,
+  hysteresis: 0,
+  severity: 'MEDIUM',
+});
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || 'null');
+    if (Array.isArray(saved)) return saved.filter(r => r && r.metric in ALERT_METRICS);
+  } catch (e) {
+    console.error("Failed to load alert rules", e);
+  }
+  return DEFAULT_ALERT_RULES;
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+// Floor for the ratio's denominator so an idle user side doesn't produce Infinity
+const MIN_RATIO_USER = 0.1;
+
+// Metric value for each sample, or undefined where it can't be computed (no memory column,
+// first sample for rates, unparseable timestamps)
+const metricSeries = (data: CpuLogEntry[], metric: AlertMetric): (number | undefined)[] => {
+  const total = (d: CpuLogEntry) => d.cpu_user_percent + d.cpu_sys_percent;
+  switch (metric) {
+    case 'total': return data.map(total);
+    case 'user': return data.map(d => d.cpu_user_percent);
+    case 'sys': return data.map(d => d.cpu_sys_percent);
+    case 'memory': return data.map(d => d.memory_percent);
+    case 'sys-user-ratio': return data.map(d => d.cpu_sys_percent / Math.max(d.cpu_user_percent, MIN_RATIO_USER));
+    case 'total-rate': return data.map((d, i) => {
+      if (i === 0) return undefined;
+      const dt = (new Date(d.timestamp).getTime() - new Date(data[i - 1].timestamp).getTime()) / 1000;
+      return dt > 0 ? (total(d) - total(data[i - 1])) / dt : undefined;
+    });
+  }
+};
+
+const compare = (value: number, comparator: AlertComparator, threshold: number) => {
+  switch (comparator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+};
+
+const evaluateRule = (data: CpuLogEntry[], rule: AlertRule, live: boolean): AlertIncident[] => {
+  const values = metricSeries(data, rule.metric);
+  const above = rule.comparator === '>' || rule.comparator === '>=';
+  // While an incident is active the threshold moves back by the hysteresis band, so a metric
+  // hovering around the threshold doesn't open and close an incident on every sample
+  const clearThreshold = above ? rule.threshold - rule.hysteresis : rule.threshold + rule.hysteresis;
+  const time = (i: number) => new Date(data[i].timestamp).getTime();
+
+  const incidents: AlertIncident[] = [];
+  let startIdx = -1;
+  let lastIdx = -1;
+  let samples = 0;
+  let peak = 0;
+
+  const close = (endTime: number, ongoing: boolean) => {
+    const durationSec = (endTime - time(startIdx)) / 1000;
+    if (durationSec >= rule.minDurationSec) {
+      incidents.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        metric: rule.metric,
+        start: data[startIdx].timestamp,
+        end: data[lastIdx].timestamp,
+        durationSec,
+        samples,
+        peak,
+        ongoing,
+      });
+    }
+    startIdx = -1;
+  };
+
+  values.forEach((value, i) => {
+    if (value === undefined || isNaN(value)) return;
+    if (startIdx === -1) {
+      if (!compare(value, rule.comparator, rule.threshold)) return;
+      startIdx = i;
+      samples = 0;
+      peak = value;
+    } else if (!compare(value, rule.comparator, clearThreshold)) {
+      // The incident lasted until this sample showed it had cleared
+      close(time(i), false);
+      return;
+    }
+    lastIdx = i;
+    samples++;
+    peak = above ? Math.max(peak, value) : Math.min(peak, value);
+  });
+  // Only a live capture can still be in an incident; a recorded one ended at its last sample
+  if (startIdx !== -1) close(time(lastIdx), live);
+
+  return incidents;
+};
+
+// All incidents of the enabled rules, oldest first. `live` marks incidents open at the last sample
+// as ongoing, for data that is still streaming in.
+export const evaluateAlertRules = (data: CpuLogEntry[], rules: AlertRule[], live = false): AlertIncident[] =>
+  rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => evaluateRule(data, rule, live))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
@@ -0,0 +1,236 @@
+import { CpuLogEntry, AnalysisResult, AnalysisProviderId, AnalysisSettings, AnalysisContext, AnomalyRange, ComparedDataset, ComparisonRow, ThreadSummary, DistributionSummary, UsageSummary, Annotation, DataQualitySummary } from "../types";
+import { analyzeHeuristically, compareHeuristically } from "./heuristicAnalyzer";
+import { toRelativeSeries } from "../utils/comparison";
+import { AnalysisProvider } from "./providers/types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { openAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+
+export const ANALYSIS_PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+};
+
+const SETTINGS_KEY = 'cpu_analysis_settings';
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (saved && saved.provider in ANALYSIS_PROVIDERS) return { ...DEFAULT_ANALYSIS_SETTINGS, ...saved };
+  } catch (e) {
+    console.error("Failed to load analysis settings", e);
+  }
+  return DEFAULT_ANALYSIS_SETTINGS;
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const SEVERITIES: AnalysisResult['severity'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+// Every provider's output goes through the same check, whatever the model promised
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (typeof raw !== 'object' || raw === null) throw new Error("Model response is not a JSON object");
+  const { summary, recommendations, severity } = raw as Record<string, unknown>;
+
+  if (typeof summary !== 'string' || !summary.trim()) throw new Error('Model response has no "summary" string');
+  if (!Array.isArray(recommendations) || !recommendations.every(r => typeof r === 'string')) {
+    throw new Error('Model response "recommendations" is not an array of strings');
+  }
+  const normalizedSeverity = typeof severity === 'string' ? severity.trim().toUpperCase() : '';
+  if (!SEVERITIES.includes(normalizedSeverity as AnalysisResult['severity'])) {
+    throw new Error(`Model response has invalid "severity": ${JSON.stringify(severity)}`);
+  }
+
+  return {
+    summary: summary.trim(),
+    recommendations: recommendations.map(r => r.trim()).filter(Boolean),
+    severity: normalizedSeverity as AnalysisResult['severity'],
+  };
+};
+
+const MAX_PROMPT_ANOMALIES = 50;
+
+const describeAnomalies = (anomalies: AnomalyRange[] = []) => {
+  if (anomalies.length === 0) return "None detected.";
+  // Keep the strongest deviations when there are too many to list
+  const listed = [...anomalies]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PROMPT_ANOMALIES)
+    .sort((a, b) => a.startIndex - b.startIndex);
+  return listed
+    .map(a => `- ${a.kind} from ${a.start} to ${a.end}: total CPU ${a.peak.toFixed(1)}% vs baseline ${a.expected.toFixed(1)}% (z=${a.score.toFixed(1)})`)
+    .join("\n    ") + (anomalies.length > listed.length ? `\n    (${anomalies.length - listed.length} weaker anomalies omitted)` : "");
+};
+
+const MAX_PROMPT_THREADS = 20;
+
+const describeThreads = (threads: ThreadSummary[] = []) => {
+  if (threads.length === 0) return "Not recorded.";
+  const listed = threads.slice(0, MAX_PROMPT_THREADS);
+  return listed
+    .map(t => `- "${t.name}" (TID ${t.tid}): avg ${t.avgTotal.toFixed(1)}% (user ${t.avgUser.toFixed(1)}%, sys ${t.avgSys.toFixed(1)}%), peak ${t.peakTotal.toFixed(1)}%, ${(t.cpuShare * 100).toFixed(1)}% of thread CPU, busy in ${(t.activeShare * 100).toFixed(0)}% of samples`)
+    .join("\n    ") + (threads.length > listed.length ? `\n    (${threads.length - listed.length} quieter threads omitted)` : "");
+};
+
+const describeDistribution = (summary: DistributionSummary) =>
+  `avg ${summary.avg.toFixed(1)}%, p50 ${summary.p50.toFixed(1)}%, p90 ${summary.p90.toFixed(1)}%, p95 ${summary.p95.toFixed(1)}%, p99 ${summary.p99.toFixed(1)}%, peak ${summary.peak.toFixed(1)}%`;
+
+const describeUsage = (usage: UsageSummary | undefined, cpuThreshold: number) => {
+  if (!usage) return "Not computed.";
+  return [
+    `User CPU: ${describeDistribution(usage.user)}`,
+    `System CPU: ${describeDistribution(usage.sys)}`,
+    `Total CPU: ${describeDistribution(usage.total)}`,
+    `Memory: ${usage.memory ? describeDistribution(usage.memory) : "not recorded"}`,
+    `CPU time consumed: ${usage.cpuSeconds.toFixed(1)} core-seconds over ${usage.windowSeconds.toFixed(0)} seconds`,
+    `Time above the ${cpuThreshold}% threshold: ${usage.secondsAboveThreshold.toFixed(0)} seconds (${(usage.shareAboveThreshold * 100).toFixed(1)}% of the window)`,
+  ].join("\n    ");
+};
+
+const MAX_PROMPT_BREAKS = 20;
+
+const describeDataQuality = (quality: DataQualitySummary | undefined) => {
+  if (!quality) return "Not computed.";
+  const listed = quality.breaks.slice(0, MAX_PROMPT_BREAKS);
+  return [
+    `Median sampling period: ${quality.medianIntervalSeconds.toFixed(2)} seconds; ${(quality.coverage * 100).toFixed(1)}% of the window has samples`,
+    `Irregular intervals: ${quality.irregularIntervals}, duplicate timestamps: ${quality.duplicates}, out-of-order samples: ${quality.outOfOrder}`,
+    ...listed.map(b => b.kind === 'restart'
+      ? `- Restart at ${b.end}: PID ${b.fromPid} replaced by PID ${b.toPid} after ${b.seconds.toFixed(1)} seconds`
+      : `- Gap from ${b.start} to ${b.end}: no samples for ${b.seconds.toFixed(1)} seconds`),
+    ...(quality.breaks.length > listed.length ? [`(${quality.breaks.length - listed.length} later breaks omitted)`] : []),
+  ].join("\n    ");
+};
+
+const MAX_PROMPT_ANNOTATIONS = 50;
+
+const describeAnnotations = (annotations: Annotation[] = []) => {
+  if (annotations.length === 0) return "None.";
+  const listed = [...annotations]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(0, MAX_PROMPT_ANNOTATIONS);
+  return listed
+    .map(a => `- ${a.timestamp} [${a.kind}] ${a.label}`)
+    .join("\n    ") + (annotations.length > listed.length ? `\n    (${annotations.length - listed.length} later events omitted)` : "");
+};
+
+const buildPrompt = (data: CpuLogEntry[], context: AnalysisContext) => {
+  // Downsample if too many points to save tokens, take every nth point if > 100
+  const step = Math.ceil(data.length / 100);
+  const sampledData = data.filter((_, index) => index % step === 0);
+
+  return `
+    Analyze the following CPU usage log data for a Linux process. 
+    The data is a time series of User CPU % and System CPU %, as a percentage of one core (100 = one fully busy core).
+    ${context.cpuCount ? `The host has ${context.cpuCount} online CPUs; host_cpu_percent, where present, is how busy the whole machine was (0-100).` : "The host's CPU count was not recorded."}
+    
+    Data (Sampled):
+    ${JSON.stringify(sampledData)}
+
+    Distribution over the whole window (computed from every sample, not just the sampled ones):
+    ${describeUsage(context.usage, context.cpuThreshold)}
+
+    Anomalies relative to the process's own rolling baseline (may fall between the sampled points):
+    ${describeAnomalies(context.anomalies)}
+
+    Per-thread CPU over the whole window, busiest first:
+    ${describeThreads(context.threads)}
+
+    Sampling gaps and process restarts (the sampled data joins across them; averages above are time-weighted and skip them):
+    ${describeDataQuality(context.dataQuality)}
+
+    Events marked on the timeline (deploys, cron jobs, GC and notes); relate spikes and drops to them where the timing fits:
+    ${describeAnnotations(context.annotations)}
+
+    Please provide:
+    1. A brief summary of the performance characteristics, noting which events coincide with changes in usage.
+    2. Specific recommendations to optimize the process based on whether it's user-bound or kernel-bound (sys), naming the responsible threads when the per-thread data points to them.
+    3. A severity level (LOW, MEDIUM, HIGH) based on total CPU saturation.
+
+    Respond with JSON of the form:
+    {"summary": string, "recommendations": string[], "severity": "LOW" | "MEDIUM" | "HIGH"}
+  `;
+};
+
+const sampleRelative = (data: CpuLogEntry[], maxPoints: number) => {
+  const step = Math.ceil(data.length / maxPoints);
+  return toRelativeSeries(data)
+    .filter((_, index) => index % step === 0)
+    .map(p => ({ t: Math.round(p.t), user: p.user, sys: p.sys, memory: p.memory }));
+};
+
+const formatRow = (row: ComparisonRow) => {
+  const value = (v: number | null) => (v === null ? "n/a" : `${Number(v.toFixed(2))}${row.unit}`);
+  const change = row.change === null ? "" : ` (${row.change > 0 ? "+" : ""}${row.change.toFixed(1)}%)`;
+  return `- ${row.label}: ${value(row.baseline)} -> ${value(row.candidate)}${change}`;
+};
+
+const buildComparisonPrompt = (baseline: ComparedDataset, candidate: ComparedDataset, rows: ComparisonRow[]) => `
+    Compare two captures of the same workload on a Linux process, taken before and after a change
+    (e.g. a deploy or configuration change). Both are aligned by seconds since their own start.
+
+    Baseline ("${baseline.name}") and candidate ("${candidate.name}") metrics, baseline -> candidate:
+    ${rows.map(formatRow).join("\n    ")}
+
+    Baseline samples ({t: seconds, user, sys, memory}):
+    ${JSON.stringify(sampleRelative(baseline.data, 50))}
+
+    Candidate samples:
+    ${JSON.stringify(sampleRelative(candidate.data, 50))}
+
+    Please provide:
+    1. A summary stating whether the candidate is a regression, an improvement or unchanged, and explaining which metrics moved and the likely cause (user vs kernel time, memory, burstiness).
+    2. Specific recommendations to confirm and fix any regression.
+    3. A severity level (LOW, MEDIUM, HIGH) for the regression; LOW if there is none.
+
+    Respond with JSON of the form:
+    {"summary": string, "recommendations": string[], "severity": "LOW" | "MEDIUM" | "HIGH"}
+  `;
+
+// Falls back to `fallback` (the rule-based analyzer) when the provider fails or returns an invalid result
+const generateWithFallback = async (
+  prompt: string,
+  settings: AnalysisSettings,
+  fallback: () => AnalysisResult
+): Promise<AnalysisResult> => {
+  const provider = ANALYSIS_PROVIDERS[settings.provider];
+  const model = settings.model || provider.defaultModel;
+
+  try {
+    const raw = await provider.generate(prompt, settings);
+    return { ...validateAnalysisResult(raw), generatedBy: `${provider.label} (${model})` };
+  } catch (error) {
+    console.error(`${provider.label} Analysis Error:`, error);
+    const result = fallback();
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    return {
+      ...result,
+      summary: `${provider.label} was unavailable (${reason}), so this is the offline rule-based analysis. ${result.summary}`,
+      generatedBy: 'Rule-based analyzer (AI fallback)',
+    };
+  }
+};
+
+export const analyzeCpuData = (data: CpuLogEntry[], settings: AnalysisSettings, context: AnalysisContext): Promise<AnalysisResult> =>
+  generateWithFallback(buildPrompt(data, context), settings, () => analyzeHeuristically(data, context));
+
+// Explains the regression or improvement between two captures
+export const analyzeComparison = (
+  baseline: ComparedDataset,
+  candidate: ComparedDataset,
+  rows: ComparisonRow[],
+  settings: AnalysisSettings
+): Promise<AnalysisResult> =>
+  generateWithFallback(
+    buildComparisonPrompt(baseline, candidate, rows),
+    settings,
+    () => compareHeuristically(baseline.name, candidate.name, rows)
+  );
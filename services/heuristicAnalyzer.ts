@@ -0,0 +1,248 @@
+import { CpuLogEntry, AnalysisResult, AnalysisContext, ComparisonRow } from "../types";
+import { fitMemoryTrend, formatHoursToLimit } from "../utils/memoryTrend";
+import { percentile } from "../utils/stats";
+import { formatDuration } from "../utils/time";
+
+// Severity and recommendation thresholds. CPU values are percent of one core.
+const SUSTAINED_SAMPLES = 3;         // Consecutive samples above the threshold that count as an incident
+const PINNED_CPU = 95;               // Total CPU at which a single thread is effectively saturated
+const SYS_BOUND_SHARE = 0.5;         // sys / (user + sys) above this is kernel-bound
+const USER_BOUND_SHARE = 0.2;        // ...below this is user-bound
+const BURSTY_CV = 0.75;              // Coefficient of variation of total CPU above this is bursty
+const IDLE_AVG_CPU = 5;
+const HIGH_SATURATED_SHARE = 0.25;   // Share of the window above the threshold
+const MEDIUM_SATURATED_SHARE = 0.05;
+const HIGH_MEM_GROWTH_PER_HOUR = 5;  // Memory percentage points per hour
+const MEDIUM_MEM_GROWTH_PER_HOUR = 1;
+const MEDIUM_AVG_CPU = 50;
+const DOMINANT_THREAD_SHARE = 0.5;   // One thread's share of all thread CPU worth calling out
+const HOST_SATURATED_CPU = 90;       // Whole-machine busy percent at which the host itself is the bottleneck
+const EVENT_LEAD_SEC = 120;          // An event this long before a spike starts may explain it
+
+const pct = (n: number) => `${n.toFixed(1)}%`;
+
+// Deterministic, offline analysis built only from the samples. Used on demand and whenever
+// the configured AI provider can't be reached.
+export const analyzeHeuristically = (data: CpuLogEntry[], { cpuThreshold, anomalies = [], threads = [], cpuCount, usage, annotations = [], dataQuality }: AnalysisContext): AnalysisResult => {
+  if (data.length === 0) {
+    return {
+      summary: "No samples in the selected range.",
+      recommendations: ["Widen the time range or import more data."],
+      severity: 'LOW',
+      generatedBy: 'Rule-based analyzer',
+    };
+  }
+
+  const totals = data.map(d => d.cpu_user_percent + d.cpu_sys_percent);
+  // The dashboard's usage summary weights samples by the time they cover, which matters when they are unevenly spaced
+  const avgUser = usage?.user.avg ?? data.reduce((s, d) => s + d.cpu_user_percent, 0) / data.length;
+  const avgSys = usage?.sys.avg ?? data.reduce((s, d) => s + d.cpu_sys_percent, 0) / data.length;
+  const avgTotal = avgUser + avgSys;
+  const sortedTotals = [...totals].sort((a, b) => a - b);
+  const p95 = percentile(sortedTotals, 95);
+  const peak = sortedTotals[sortedTotals.length - 1];
+  const sysShare = avgTotal > 0 ? avgSys / avgTotal : 0;
+
+  const stdDev = Math.sqrt(totals.reduce((s, t) => s + (t - avgTotal) ** 2, 0) / totals.length);
+  const cv = avgTotal > 0 ? stdDev / avgTotal : 0;
+
+  const saturatedShare = usage?.shareAboveThreshold ?? totals.filter(t => t > cpuThreshold).length / totals.length;
+  const pinnedShare = totals.filter(t => t >= PINNED_CPU).length / totals.length;
+
+  let incidents = 0;
+  let longestRun = 0;
+  let run = 0;
+  totals.forEach((t, i) => {
+    run = t > cpuThreshold ? run + 1 : 0;
+    longestRun = Math.max(longestRun, run);
+    const runEnded = run > 0 && (i === totals.length - 1 || totals[i + 1] <= cpuThreshold);
+    if (runEnded && run >= SUSTAINED_SAMPLES) incidents++;
+  });
+
+  const trend = fitMemoryTrend(data);
+  const memory = trend && trend.verdict !== 'insufficient-data' ? trend : null;
+
+  // Severity
+  let severity: AnalysisResult['severity'] = 'LOW';
+  if (
+    saturatedShare >= HIGH_SATURATED_SHARE ||
+    p95 >= PINNED_CPU ||
+    (memory !== null && memory.verdict === 'leak' && memory.slopePerHour >= HIGH_MEM_GROWTH_PER_HOUR)
+  ) {
+    severity = 'HIGH';
+  } else if (
+    saturatedShare >= MEDIUM_SATURATED_SHARE ||
+    incidents > 0 ||
+    avgTotal >= MEDIUM_AVG_CPU ||
+    (memory !== null && memory.verdict !== 'stable' && memory.slopePerHour >= MEDIUM_MEM_GROWTH_PER_HOUR)
+  ) {
+    severity = 'MEDIUM';
+  }
+
+  // Summary
+  const boundBy = sysShare >= SYS_BOUND_SHARE ? 'kernel-bound (sys)' : sysShare <= USER_BOUND_SHARE ? 'user-bound' : 'mixed user/sys';
+  const sentences = [
+    `Over ${data.length} samples the process averaged ${pct(avgTotal)} CPU (p95 ${pct(p95)}, peak ${pct(peak)}) and is ${boundBy}, with system time at ${pct(sysShare * 100)} of CPU.`
+      + (cpuCount ? ` That is ${(avgTotal / 100).toFixed(1)} of the host's ${cpuCount} CPUs on average (${pct(avgTotal / cpuCount)} of the machine).` : ''),
+    saturatedShare > 0
+      ? `It spent ${pct(saturatedShare * 100)} of the window above the ${cpuThreshold}% threshold, with ${incidents} sustained incident${incidents === 1 ? '' : 's'} (longest ${longestRun} sample${longestRun === 1 ? '' : 's'}).`
+      : `It never exceeded the ${cpuThreshold}% threshold.`,
+    ...(usage ? [`It consumed ${usage.cpuSeconds.toFixed(1)} CPU-seconds over ${formatDuration(usage.windowSeconds)}, with p99 total CPU at ${pct(usage.total.p99)}.`] : []),
+    cv >= BURSTY_CV
+      ? `Usage is bursty (coefficient of variation ${cv.toFixed(2)}).`
+      : `Usage is steady (coefficient of variation ${cv.toFixed(2)}).`,
+  ];
+  const gaps = dataQuality?.breaks.filter(b => b.kind === 'gap') ?? [];
+  const restarts = dataQuality?.breaks.filter(b => b.kind === 'restart') ?? [];
+  if (gaps.length > 0 || restarts.length > 0) {
+    const parts = [
+      ...(gaps.length > 0 ? [`${gaps.length} gap${gaps.length === 1 ? '' : 's'} without samples (${formatDuration(dataQuality!.gapSeconds)} in total)`] : []),
+      ...(restarts.length > 0 ? [`${restarts.length} restart${restarts.length === 1 ? '' : 's'}, last as PID ${restarts[restarts.length - 1].toPid}`] : []),
+    ];
+    sentences.push(`The capture has ${parts.join(' and ')}; averages cover only the time that was sampled.`);
+  }
+  const spikes = anomalies.filter(a => a.kind === 'spike');
+  if (spikes.length > 0) {
+    const strongest = spikes.reduce((a, b) => (b.score > a.score ? b : a));
+    sentences.push(`${spikes.length} spike${spikes.length === 1 ? '' : 's'} stood out from the rolling baseline, the largest reaching ${pct(strongest.peak)} against an expected ${pct(strongest.expected)}.`);
+    // Most recent event at or shortly before the spike started
+    const spikeStart = new Date(strongest.start).getTime();
+    const cause = annotations
+      .filter(e => {
+        const lead = (spikeStart - new Date(e.timestamp).getTime()) / 1000;
+        return lead >= 0 && lead <= EVENT_LEAD_SEC;
+      })
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+    if (cause) {
+      const lead = Math.round((spikeStart - new Date(cause.timestamp).getTime()) / 1000);
+      sentences.push(`It began ${lead > 0 ? `${formatDuration(lead)} after` : 'at'} the ${cause.kind} event "${cause.label}".`);
+    }
+  }
+  const hostReadings = data.filter(d => d.host_cpu_percent !== undefined).map(d => d.host_cpu_percent!);
+  if (hostReadings.length > 0) {
+    const hostAvg = hostReadings.reduce((s, v) => s + v, 0) / hostReadings.length;
+    const hostSaturatedShare = hostReadings.filter(v => v >= HOST_SATURATED_CPU).length / hostReadings.length;
+    sentences.push(hostSaturatedShare > 0
+      ? `The host itself averaged ${pct(hostAvg)} busy and was above ${HOST_SATURATED_CPU}% for ${pct(hostSaturatedShare * 100)} of the window, so the process may have been competing for CPU.`
+      : `The host averaged ${pct(hostAvg)} busy and was never saturated.`);
+  }
+  const hotThread = threads[0];
+  if (hotThread && hotThread.avgTotal >= IDLE_AVG_CPU) {
+    sentences.push(hotThread.cpuShare >= DOMINANT_THREAD_SHARE
+      ? `Thread "${hotThread.name}" (TID ${hotThread.tid}) accounts for ${pct(hotThread.cpuShare * 100)} of thread CPU, averaging ${pct(hotThread.avgTotal)}.`
+      : `CPU is spread across threads; the busiest, "${hotThread.name}" (TID ${hotThread.tid}), has ${pct(hotThread.cpuShare * 100)} of it.`);
+  }
+  if (memory) {
+    const rate = `${memory.slopePerHour >= 0 ? '+' : ''}${memory.slopePerHour.toFixed(2)} points/hour`;
+    sentences.push(memory.verdict === 'stable'
+      ? `The memory baseline is stable (${rate}, now ${pct(memory.currentValue)}).`
+      : `The memory baseline grows ${rate} (now ${pct(memory.currentValue)}), reaching 100% in ${formatHoursToLimit(memory.hoursToLimit)} at this rate.`);
+  }
+
+  // Recommendations
+  const recommendations: string[] = [];
+  const pid = data[0].pid;
+  if (pinnedShare >= MEDIUM_SATURATED_SHARE) {
+    recommendations.push(`The process is pinned at ~100% of a core for ${pct(pinnedShare * 100)} of the window. If it is single-threaded, parallelise the hot path or scale out; also check cgroup CPU quotas (cpu.max) and taskset affinity.`);
+  }
+  if (hotThread && hotThread.peakTotal >= PINNED_CPU) {
+    recommendations.push(`Thread "${hotThread.name}" (TID ${hotThread.tid}) reaches ${pct(hotThread.peakTotal)} of a core. Profile it on its own with \`perf top -t ${hotThread.tid}\` or take a few thread dumps and look for it spinning or holding a lock.`);
+  }
+  if (sysShare >= SYS_BOUND_SHARE && avgTotal >= IDLE_AVG_CPU) {
+    recommendations.push(`System time dominates (${pct(sysShare * 100)}). Profile syscalls with \`strace -c -f -p ${pid}\` or \`perf trace -s -p ${pid}\`, and look for small unbuffered I/O, busy polling, excessive context switches or futex contention.`);
+  } else if (avgTotal >= IDLE_AVG_CPU) {
+    recommendations.push(`CPU time is mostly in user space. Sample hot functions with \`perf top -p ${pid}\` or record a flame graph with \`perf record -g -p ${pid}\` and optimise the top frames.`);
+  }
+  if (cv >= BURSTY_CV && peak > cpuThreshold) {
+    recommendations.push(`Bursts reach ${pct(peak)} against a ${pct(avgTotal)} average. Correlate spikes with request load, cron jobs or GC pauses, and spread batch work out or rate-limit it.`);
+  }
+  if (memory && memory.verdict !== 'stable') {
+    recommendations.push(`${memory.verdict === 'leak' ? 'Memory is leaking' : 'Memory may be leaking'} at ${memory.slopePerHour.toFixed(2)} points/hour after GC. Capture heap snapshots some time apart (or use valgrind/heaptrack) to look for a leak, and check cache size limits.`);
+  }
+  if (restarts.length > 0) {
+    recommendations.push(`The process was replaced ${restarts.length} time${restarts.length === 1 ? '' : 's'} during the capture. Check the service manager and kernel logs around ${restarts[0].end} for crashes or OOM kills, e.g. \`journalctl -k | grep -i oom\`.`);
+  }
+  if (incidents > 0 && recommendations.length === 0) {
+    recommendations.push(`Review the ${incidents} sustained incident${incidents === 1 ? '' : 's'} above ${cpuThreshold}% and correlate them with application logs.`);
+  }
+  if (avgTotal < IDLE_AVG_CPU && recommendations.length === 0) {
+    recommendations.push(`The process is mostly idle (${pct(avgTotal)} average CPU). No CPU optimisation is needed for this window.`);
+  }
+  if (recommendations.length === 0) {
+    recommendations.push(`CPU usage is moderate and within the ${cpuThreshold}% threshold. Keep monitoring and compare against future captures.`);
+  }
+
+  return {
+    summary: sentences.join(' '),
+    recommendations,
+    severity,
+    generatedBy: 'Rule-based analyzer',
+  };
+};
+
+const SIGNIFICANT_CHANGE_PCT = 10;   // Relative change in a comparison row worth mentioning
+const MIN_CHANGE_POINTS = 1;         // ...as long as it also moved at least this many percentage points
+const HIGH_REGRESSION_PCT = 25;
+
+const rowDelta = (row: ComparisonRow) => (row.candidate ?? 0) - (row.baseline ?? 0);
+
+// Rows without a percentage (e.g. incidents going from 0 to 3) sort first
+const changeSize = (row: ComparisonRow) => (row.change === null ? Infinity : Math.abs(row.change));
+
+const describeChange = (row: ComparisonRow) => {
+  const value = (v: number) => (row.unit === '%' ? `${v.toFixed(1)}%` : String(v));
+  const change = row.change === null ? 'new' : `${row.change > 0 ? '+' : ''}${row.change.toFixed(0)}%`;
+  return `${row.label} ${rowDelta(row) > 0 ? 'rose' : 'fell'} from ${value(row.baseline!)} to ${value(row.candidate!)} (${change})`;
+};
+
+// Offline counterpart of the comparison prompt: reads the diff table for regressions and improvements
+export const compareHeuristically = (baselineName: string, candidateName: string, rows: ComparisonRow[]): AnalysisResult => {
+  const significant = rows.filter(r => {
+    if (r.higherIsWorse === null || r.baseline === null || r.candidate === null) return false;
+    if (r.change === null) return r.baseline === 0 && r.candidate > 0;
+    return Math.abs(r.change) >= SIGNIFICANT_CHANGE_PCT && (r.unit !== '%' || Math.abs(rowDelta(r)) >= MIN_CHANGE_POINTS);
+  });
+  const regressions = significant.filter(r => (rowDelta(r) > 0) === r.higherIsWorse).sort((a, b) => changeSize(b) - changeSize(a));
+  const improvements = significant.filter(r => (rowDelta(r) > 0) !== r.higherIsWorse).sort((a, b) => changeSize(b) - changeSize(a));
+  const find = (label: string) => rows.find(r => r.label === label);
+
+  let severity: AnalysisResult['severity'] = 'LOW';
+  const worst = regressions[0];
+  const highIncidents = find('High severity incidents');
+  if ((worst && changeSize(worst) >= HIGH_REGRESSION_PCT) || (highIncidents && rowDelta(highIncidents) > 0)) severity = 'HIGH';
+  else if (regressions.length > 0) severity = 'MEDIUM';
+
+  const sentences = [`Compared with "${baselineName}", "${candidateName}"`];
+  if (regressions.length === 0 && improvements.length === 0) {
+    sentences[0] += ` performs about the same: no metric moved by ${SIGNIFICANT_CHANGE_PCT}% or more.`;
+  } else {
+    sentences[0] += regressions.length > improvements.length ? ' is a regression.' : regressions.length > 0 ? ' is mixed.' : ' is an improvement.';
+    if (regressions.length > 0) sentences.push(`Worse: ${regressions.slice(0, 4).map(describeChange).join('; ')}.`);
+    if (improvements.length > 0) sentences.push(`Better: ${improvements.slice(0, 4).map(describeChange).join('; ')}.`);
+  }
+
+  const recommendations: string[] = [];
+  const user = find('Avg user CPU');
+  const sys = find('Avg sys CPU');
+  const memory = find('Avg memory');
+  const regressed = (row?: ComparisonRow) => !!row && regressions.includes(row);
+  if (regressed(user)) {
+    recommendations.push("User CPU went up. Record both versions with `perf record -g` under the same load and compare them with `perf diff` to find the functions that got more expensive.");
+  }
+  if (regressed(sys)) {
+    recommendations.push("System CPU went up. Compare `strace -c -f` summaries of both runs to see which syscalls became more frequent or slower, e.g. new logging, smaller I/O buffers or extra polling.");
+  }
+  if (regressed(memory)) {
+    recommendations.push("Memory usage grew. Compare heap snapshots of both versions at the same point in the workload and check changed cache sizes or pool limits.");
+  }
+  if (regressions.length > 0 && recommendations.length === 0) {
+    recommendations.push("Re-run both captures under identical load to rule out noise, then bisect the changes between the two runs.");
+  }
+  if (regressions.length === 0) {
+    recommendations.push(improvements.length > 0
+      ? "No regressions found. Keep the new capture as the baseline for the next change."
+      : "No significant difference. If a change was expected, check that both captures ran the same workload for long enough.");
+  }
+
+  return { summary: sentences.join(' '), recommendations, severity, generatedBy: 'Rule-based analyzer' };
+};
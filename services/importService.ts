@@ -0,0 +1,64 @@
+import { LogFormat, ParseResult } from "../types";
+import { ParseOptions } from "../utils/parser";
+
+export interface ImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+  accepted: number;
+}
+
+export interface ParseWorkerRequest {
+  file: File;
+  format: LogFormat;
+  options: ParseOptions;
+}
+
+export type ParseWorkerMessage =
+  | ({ type: 'progress' } & ImportProgress)
+  | { type: 'done'; result: ParseResult }
+  | { type: 'error'; message: string };
+
+export interface ImportTask {
+  // Resolves to null if the import was cancelled
+  result: Promise<ParseResult | null>;
+  cancel: () => void;
+}
+
+// Parses `file` (plain or gzipped) in a Web Worker, reporting progress as it goes
+export const importLogFile = (
+  file: File,
+  format: LogFormat,
+  options: ParseOptions,
+  onProgress: (progress: ImportProgress) => void
+): ImportTask => {
+  const worker = new Worker(new URL('../workers/parseWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: ParseResult | null) => void = () => {};
+
+  const result = new Promise<ParseResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (e: MessageEvent<ParseWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress(message);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Import worker failed'));
+    };
+  });
+
+  worker.postMessage({ file, format, options } satisfies ParseWorkerRequest);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
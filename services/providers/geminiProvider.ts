@@ -0,0 +1,39 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisProvider } from "./types";
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  requiresEndpoint: false,
+  generate: async (prompt, settings) => {
+    if (!process.env.API_KEY) {
+      throw new Error("API Key not found. Please ensure process.env.API_KEY is set.");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: settings.model || geminiProvider.defaultModel,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING },
+            recommendations: { 
+              type: Type.ARRAY,
+              items: { type: Type.STRING }
+            },
+            severity: { type: Type.STRING, enum: ["LOW", "MEDIUM", "HIGH"] }
+          },
+          required: ["summary", "recommendations", "severity"]
+        }
+      }
+    });
+
+    const resultText = response.text;
+    if (!resultText) throw new Error("No response from Gemini");
+    return JSON.parse(resultText);
+  },
+};
@@ -0,0 +1,41 @@
+import { AnalysisProvider } from "./types";
+
+// Local models often wrap JSON in a Markdown code fence despite being asked not to
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Any server implementing POST /chat/completions, e.g. Ollama (http://localhost:11434/v1),
+// llama.cpp's llama-server (http://localhost:8080/v1) or vLLM. Nothing leaves the configured host.
+export const openAiCompatibleProvider: AnalysisProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaultModel: 'llama3.1',
+  requiresEndpoint: true,
+  generate: async (prompt, settings) => {
+    if (!settings.endpoint) throw new Error("No endpoint configured for the OpenAI-compatible provider.");
+
+    const response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model || openAiCompatibleProvider.defaultModel,
+        messages: [
+          { role: 'system', content: 'You are a Linux performance engineer. Reply with a single JSON object and nothing else.' },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText} from ${settings.endpoint}`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content.trim()) throw new Error("Empty response from model");
+    return JSON.parse(stripCodeFence(content));
+  },
+};
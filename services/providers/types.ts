@@ -0,0 +1,11 @@
+import { AnalysisProviderId, AnalysisSettings } from "../../types";
+
+// A backend that turns the analysis prompt into a JSON object. The caller validates
+// the object against the AnalysisResult schema, so providers only deal with transport.
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  defaultModel: string;
+  requiresEndpoint: boolean;
+  generate: (prompt: string, settings: AnalysisSettings) => Promise<unknown>;
+}
@@ -0,0 +1,210 @@
+import { AlertIncident, AlertRule, AnalysisResult, CpuLogEntry } from "../types";
+import { entriesToCsv } from "../utils/formats/csv";
+import { formatDateTime, formatDuration } from "../utils/time";
+import { ALERT_METRICS, alertValueIn } from "./alertService";
+
+export interface ReportItem {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+export interface ReportChart {
+  title: string;
+  svg: string | null; // Serialized chart, null if it wasn't rendered
+}
+
+export interface ReportInput {
+  title: string;
+  generatedAt: Date;
+  timeZone: string; // Display zone for incident times
+  data: CpuLogEntry[]; // The filtered samples, embedded as the CSV appendix
+  stats: ReportItem[];
+  settings: ReportItem[];
+  charts: ReportChart[];
+  incidents: AlertIncident[];
+  alertRules: AlertRule[];
+  scaleFactor: number; // CPU values in incidents and rules are per core and shown divided by this
+  analysis: AnalysisResult | null;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Copies a rendered Recharts chart into a standalone SVG string. Fills set through CSS classes
+// (e.g. Tailwind's fill-* on reference areas) are inlined, since the report has no stylesheet for them.
+export const serializeChartSvg = (container: HTMLElement | null): string | null => {
+  const svg = container?.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!svg) return null;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const originals = svg.querySelectorAll<SVGElement>('[class*="fill-"]');
+  const copies = clone.querySelectorAll<SVGElement>('[class*="fill-"]');
+  originals.forEach((element, i) => {
+    const style = getComputedStyle(element);
+    copies[i].setAttribute('fill', style.fill);
+    copies[i].setAttribute('fill-opacity', style.fillOpacity);
+  });
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `0 0 ${Math.round(width)} ${Math.round(height)}`);
+  clone.setAttribute('width', '100%');
+  clone.removeAttribute('height');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+const SEVERITY_COLORS: Record<AnalysisResult['severity'], string> = {
+  HIGH: '#dc2626',
+  MEDIUM: '#ca8a04',
+  LOW: '#059669',
+};
+
+const severityBadge = (severity: AnalysisResult['severity']) =>
+  `<span class="badge" style="background:${SEVERITY_COLORS[severity]}">${severity}</span>`;
+
+
+const renderItems = (items: ReportItem[]) => items.map(item => `
+      <div class="stat">
+        <div class="label">${escapeHtml(item.label)}</div>
+        <div class="value">${escapeHtml(item.value)}</div>
+        ${item.detail ? `<div class="detail">${escapeHtml(item.detail)}</div>` : ''}
+      </div>`).join('');
+
+const renderIncidents = (incidents: AlertIncident[], timeZone: string, scaleFactor: number) => {
+  if (incidents.length === 0) return '<p class="muted">No alert rule fired in the reported range.</p>';
+  const rows = incidents.map(i => {
+    const { unit } = ALERT_METRICS[i.metric];
+    return `
+        <tr>
+          <td>${severityBadge(i.severity)}</td>
+          <td>${escapeHtml(i.ruleName)}</td>
+          <td>${escapeHtml(formatDateTime(i.start, timeZone))}</td>
+          <td>${i.ongoing ? 'ongoing' : escapeHtml(formatDateTime(i.end, timeZone))}</td>
+          <td>${formatDuration(i.durationSec)}</td>
+          <td class="num">${i.samples}</td>
+          <td class="num">${alertValueIn(i.metric, i.peak, scaleFactor).toFixed(i.metric === 'sys-user-ratio' ? 2 : 1)}${unit}</td>
+        </tr>`;
+  }).join('');
+  return `
+      <table>
+        <thead><tr><th>Severity</th><th>Rule</th><th>Start</th><th>End</th><th>Duration</th><th>Samples</th><th>Peak</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+};
+
+const renderRules = (rules: AlertRule[], scaleFactor: number) => {
+  if (rules.length === 0) return '<p class="muted">No alert rules configured.</p>';
+  return `
+      <table>
+        <thead><tr><th>Rule</th><th>Condition</th><th>Min duration</th><th>Hysteresis</th><th>Severity</th></tr></thead>
+        <tbody>${rules.map(r => {
+          const { label, unit } = ALERT_METRICS[r.metric];
+          const shown = (value: number) => parseFloat(alertValueIn(r.metric, value, scaleFactor).toFixed(2));
+          return `
+          <tr${r.enabled ? '' : ' class="muted"'}>
+            <td>${escapeHtml(r.name)}${r.enabled ? '' : ' (disabled)'}</td>
+            <td>${escapeHtml(`${label} ${r.comparator} ${shown(r.threshold)}${unit}`)}</td>
+            <td>${r.minDurationSec}s</td>
+            <td>${shown(r.hysteresis)}${unit}</td>
+            <td>${severityBadge(r.severity)}</td>
+          </tr>`;
+        }).join('')}</tbody>
+      </table>`;
+};
+
+const renderAnalysis = (analysis: AnalysisResult | null) => {
+  if (!analysis) return '<p class="muted">No analysis was run for this range.</p>';
+  return `
+      <p>${severityBadge(analysis.severity)} ${analysis.generatedBy ? `<span class="muted">by ${escapeHtml(analysis.generatedBy)}</span>` : ''}</p>
+      <p>${escapeHtml(analysis.summary)}</p>
+      <ol>${analysis.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ol>`;
+};
+
+// Builds a single HTML file with no external resources: charts are inline SVG and the raw
+// samples are embedded as CSV that the page can save again. Printing it gives the PDF version.
+export const buildHtmlReport = (input: ReportInput): string => {
+  const csv = entriesToCsv(input.data);
+  // Escaping "<" keeps the embedded CSV from closing the script element early
+  const embeddedCsv = JSON.stringify(csv).replace(/</g, '\\u003c');
+  const csvName = `${input.title.replace(/[^\w.-]+/g, '-')}-samples.csv`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(input.title)} – Process Report</title>
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; max-width: 1100px; margin: 0 auto; padding: 32px; line-height: 1.5; }
+    h1 { margin-bottom: 4px; }
+    h2 { border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 32px; }
+    .muted { color: #64748b; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 12px; }
+    .stat { border: 1px solid #cbd5e1; border-radius: 8px; padding: 12px; }
+    .stat .label { font-size: 12px; color: #64748b; }
+    .stat .value { font-size: 22px; font-weight: 700; }
+    .stat .detail { font-size: 12px; color: #475569; }
+    .chart { background: #1e293b; border-radius: 8px; padding: 12px; margin-bottom: 16px; break-inside: avoid; }
+    .chart h3 { color: #e2e8f0; margin: 0 0 8px; font-size: 14px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+    td.num { text-align: right; font-variant-numeric: tabular-nums; }
+    tr { break-inside: avoid; }
+    .badge { color: white; font-size: 11px; font-weight: 700; padding: 2px 8px; border-radius: 999px; }
+    .actions { position: sticky; top: 0; background: white; padding: 8px 0; display: flex; gap: 8px; }
+    button { font: inherit; padding: 6px 14px; border: 1px solid #94a3b8; border-radius: 6px; background: #f8fafc; cursor: pointer; }
+    @media print { .actions, .no-print { display: none; } body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <div class="actions">
+    <button onclick="window.print()">Print / Save as PDF</button>
+    <button onclick="downloadSamples()">Download samples (CSV)</button>
+  </div>
+
+  <h1>${escapeHtml(input.title)}</h1>
+  <p class="muted">Process report generated ${escapeHtml(formatDateTime(input.generatedAt.toISOString(), input.timeZone))}</p>
+
+  <h2>Summary</h2>
+  <div class="grid">${renderItems(input.stats)}
+  </div>
+
+  <h2>Analysis</h2>
+  ${renderAnalysis(input.analysis)}
+
+  <h2>Charts</h2>
+  ${input.charts.map(chart => `
+  <div class="chart">
+    <h3>${escapeHtml(chart.title)}</h3>
+    ${chart.svg ?? '<p class="muted">Chart not available.</p>'}
+  </div>`).join('')}
+
+  <h2>Incidents (${input.incidents.length})</h2>
+  ${renderIncidents(input.incidents, input.timeZone, input.scaleFactor)}
+
+  <h2>Settings</h2>
+  <div class="grid">${renderItems(input.settings)}
+  </div>
+  <h3>Alert rules</h3>
+  ${renderRules(input.alertRules, input.scaleFactor)}
+
+  <h2>Appendix: Raw Samples</h2>
+  <p>
+    ${input.data.length.toLocaleString()} samples in the reported range are embedded in this file.
+    <span class="no-print"><button onclick="downloadSamples()">Download ${escapeHtml(csvName)}</button></span>
+  </p>
+
+  <script>
+    const SAMPLES_CSV = ${embeddedCsv};
+    function downloadSamples() {
+      const url = URL.createObjectURL(new Blob([SAMPLES_CSV], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = ${JSON.stringify(csvName)};
+      link.click();
+      URL.revokeObjectURL(url);
+    }
+  </script>
+</body>
+</html>
+`;
+};
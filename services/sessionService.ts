@@ -0,0 +1,135 @@
+import { AnalysisResult, CaptureSession, CpuLogEntry } from "../types";
+import { loadAlertRules } from "./alertService";
+import { processSamples } from "../utils/threads";
+
+const DB_NAME = 'lpm-sessions';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const SAMPLES_STORE = 'samples'; // { id, data } keyed by session id
+
+export const DEFAULT_CPU_THRESHOLD = 80;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(SAMPLES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if the database couldn't be opened
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves with its request's result once the transaction commits
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (sessions: IDBObjectStore, samples: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SESSIONS_STORE, SAMPLES_STORE], mode);
+    const request = work(tx.objectStore(SESSIONS_STORE), tx.objectStore(SAMPLES_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Most recent first
+export const listSessions = async (): Promise<CaptureSession[]> => {
+  const sessions = await withStores<CaptureSession[]>('readonly', store => store.getAll());
+  return (sessions ?? []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getSession = async (id: string): Promise<CaptureSession | null> => {
+  const session = await withStores<CaptureSession>('readonly', store => store.get(id));
+  return session ?? null;
+};
+
+export const loadSessionData = async (id: string): Promise<CpuLogEntry[]> => {
+  const record = await withStores<{ id: string; data: CpuLogEntry[] }>('readonly', (_, samples) => samples.get(id));
+  return record?.data ?? [];
+};
+
+export const createSession = async (
+  name: string,
+  data: CpuLogEntry[],
+  details: Partial<Pick<CaptureSession, 'host' | 'pid' | 'command' | 'tags'>> = {}
+): Promise<CaptureSession> => {
+  const session: CaptureSession = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: new Date().toISOString(),
+    host: details.host,
+    pid: details.pid ?? data[0]?.pid,
+    command: details.command ?? data.find(d => d.command)?.command,
+    tags: details.tags ?? [],
+    sampleCount: processSamples(data).length,
+    analyses: [],
+    alertRules: loadAlertRules(),
+    cpuThreshold: DEFAULT_CPU_THRESHOLD,
+    annotations: [],
+  };
+  await withStores('readwrite', (sessions, samples) => {
+    sessions.put(session);
+    samples.put({ id: session.id, data });
+  });
+  return session;
+};
+
+// Applies `changes` to the stored session and returns the updated copy
+export const updateSession = async (
+  id: string,
+  changes: Partial<Omit<CaptureSession, 'id' | 'createdAt'>>
+): Promise<CaptureSession | null> => {
+  let updated: CaptureSession | null = null;
+  await withStores('readwrite', sessions => {
+    const request = sessions.get(id);
+    request.onsuccess = () => {
+      if (!request.result) return;
+      updated = { ...request.result, ...changes };
+      sessions.put(updated);
+    };
+  });
+  return updated;
+};
+
+// Adds samples to the end of a session's data. Overlapping calls run in the order they were made,
+// since IndexedDB queues read-write transactions on the same stores.
+export const appendSessionData = async (id: string, entries: CpuLogEntry[]) => {
+  await withStores('readwrite', (sessions, samples) => {
+    const stored = samples.get(id);
+    stored.onsuccess = () => samples.put({ id, data: [...(stored.result?.data ?? []), ...entries] });
+    const request = sessions.get(id);
+    request.onsuccess = () => {
+      if (request.result) sessions.put({ ...request.result, sampleCount: request.result.sampleCount + processSamples(entries).length });
+    };
+  });
+};
+
+export const addSessionAnalysis = async (id: string, result: AnalysisResult) => {
+  await withStores('readwrite', sessions => {
+    const request = sessions.get(id);
+    request.onsuccess = () => {
+      const session: CaptureSession | undefined = request.result;
+      if (!session) return;
+      sessions.put({ ...session, analyses: [...session.analyses, { createdAt: new Date().toISOString(), result }] });
+    };
+  });
+};
+
+export const deleteSession = async (id: string) => {
+  await withStores('readwrite', (sessions, samples) => {
+    sessions.delete(id);
+    samples.delete(id);
+  });
+};
@@ -0,0 +1,76 @@
+import { CpuLogEntry, StreamExitInfo, StreamStatus } from "../types";
+
+// Served by the collector middleware in collector/streamPlugin.ts
+const STREAM_ENDPOINT = '/api/stream';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 15000;
+
+interface StreamOptions {
+  tree?: boolean; // Aggregate the process with all its descendants
+}
+
+interface StreamHandlers {
+  onEntry: (entry: CpuLogEntry) => void;
+  onStatus: (status: StreamStatus) => void;
+  onExit: (info: StreamExitInfo) => void;
+}
+
+// Subscribes to live samples for `pid`. Reconnects with backoff on network errors and
+// stops for good once the collector reports that the process exited. Returns an unsubscribe function.
+export const subscribeToProcessStream = (
+  pid: number,
+  intervalSec: number,
+  { onEntry, onStatus, onExit }: StreamHandlers,
+  { tree = false }: StreamOptions = {}
+): (() => void) => {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelay = INITIAL_RETRY_MS;
+  let closed = false;
+
+  const close = () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    source?.close();
+  };
+
+  const connect = () => {
+    onStatus(retryDelay === INITIAL_RETRY_MS ? 'connecting' : 'reconnecting');
+    // The dashboard charts per-thread CPU whenever thread samples are present; the collector
+    // samples either threads or the process tree, not both
+    source = new EventSource(`${STREAM_ENDPOINT}?pid=${pid}&interval=${intervalSec}&${tree ? 'tree' : 'threads'}=1`);
+
+    source.onopen = () => {
+      retryDelay = INITIAL_RETRY_MS;
+      onStatus('live');
+    };
+
+    source.addEventListener('entry', (e) => {
+      try {
+        onEntry(JSON.parse((e as MessageEvent).data) as CpuLogEntry);
+      } catch (err) {
+        console.warn("Skipping invalid stream event:", err);
+      }
+    });
+
+    source.addEventListener('exit', (e) => {
+      const info = JSON.parse((e as MessageEvent).data) as StreamExitInfo;
+      close();
+      onStatus('exited');
+      onExit(info);
+    });
+
+    source.onerror = () => {
+      if (closed) return;
+      // Take over from the browser's built-in retry so we can back off and report status
+      source?.close();
+      onStatus('reconnecting');
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    };
+  };
+
+  connect();
+  return close;
+};
@@ -5,15 +5,301 @@ export interface CpuLogEntry {
   cpu_sys_percent: number;
   memory_percent?: number;
   command?: string;
+  ppid?: number;
+  // Host context from /proc/stat. CPU percentages above are of one core, so a process busy on
+  // four cores reads 400; cpu_count lets the dashboard rescale them to the whole machine.
+  cpu_count?: number;
+  host_cpu_percent?: number; // Whole-machine busy time, 0-100
+  // Set on per-thread samples, which share the timestamp and pid of their process sample
+  tid?: number;
+  thread_name?: string;
+  // Process-tree captures: the top-level sample aggregates the whole tree, and every live member
+  // also gets its own sample tagged with the root PID
+  tree_root?: number;
+  tree_size?: number; // Live processes in the tree, on the aggregate sample
+  exited_cpu_percent?: number; // CPU of children that exited during the interval, already in the aggregate
+  // Extended counters from /proc/<pid>/{io,status,stat,fd}; rates are per second over the sample interval
+  read_bytes_per_sec?: number;
+  write_bytes_per_sec?: number;
+  voluntary_ctx_switches_per_sec?: number;
+  nonvoluntary_ctx_switches_per_sec?: number;
+  minor_faults_per_sec?: number;
+  major_faults_per_sec?: number;
+  threads?: number;
+  fd_count?: number;
+  rss_bytes?: number;
+}
+
+export type ExtendedMetricField =
+  | 'read_bytes_per_sec'
+  | 'write_bytes_per_sec'
+  | 'voluntary_ctx_switches_per_sec'
+  | 'nonvoluntary_ctx_switches_per_sec'
+  | 'minor_faults_per_sec'
+  | 'major_faults_per_sec'
+  | 'threads'
+  | 'fd_count'
+  | 'rss_bytes';
+
+export type TreeField = 'ppid' | 'tree_root' | 'tree_size' | 'exited_cpu_percent';
+
+export type HostField = 'cpu_count' | 'host_cpu_percent';
+
+// Unit of CPU percentages on the dashboard: of one core (as recorded) or of the whole machine
+export type CpuScale = 'core' | 'machine';
+
+export type LogFormat = 'jsonl' | 'csv' | 'pidstat' | 'top' | 'ps' | 'sar';
+
+// CpuLogEntry fields that a CSV/TSV column can be mapped onto
+export type MappedField = 'timestamp' | 'pid' | 'cpu_user_percent' | 'cpu_sys_percent' | 'memory_percent' | 'command' | 'tid' | 'thread_name' | TreeField | HostField | ExtendedMetricField;
+
+// Header name chosen for each field, or null when the file has no such column
+export type ColumnMapping = Record<MappedField, string | null>;
+
+export type RejectReason = 'invalid-json' | 'missing-field' | 'wrong-type' | 'out-of-range';
+
+export interface RejectedLine {
+  line: number; // 1-based line number in the input
+  text: string;
+  reason: RejectReason;
+  detail: string;
+}
+
+export interface CoercedField {
+  line: number;
+  field: string;
+  detail: string; // e.g. 'string "12.5" read as number'
+  count?: number; // Lines coerced the same way, when repeats are folded into this first one
+}
+
+export interface ParseReport {
+  format: LogFormat | null;
+  totalLines: number; // non-empty input lines
+  accepted: number;
+  rejected: RejectedLine[];
+  coerced: CoercedField[];
+}
+
+export interface ParseResult {
+  data: CpuLogEntry[];
+  report: ParseReport;
 }
 
 export enum AppState {
   SETUP = 'SETUP',
   DASHBOARD = 'DASHBOARD',
+  COMPARE = 'COMPARE',
 }
 
 export interface AnalysisResult {
   summary: string;
   recommendations: string[];
   severity: 'LOW' | 'MEDIUM' | 'HIGH';
+  generatedBy?: string; // e.g. "Gemini (gemini-2.5-flash)" or "Rule-based analyzer"
+}
+
+// Consecutive samples whose total CPU deviates from the rolling baseline
+export interface AnomalyRange {
+  start: string; // Timestamp of the first anomalous sample
+  end: string; // Timestamp of the last anomalous sample
+  startIndex: number; // Index of the first sample in the analyzed series
+  endIndex: number;
+  kind: 'spike' | 'drop';
+  peak: number; // Most extreme total CPU % in the range
+  expected: number; // Baseline total CPU % just before the range
+  score: number; // Largest |z| in the range
+}
+
+// One thread's CPU over a window, averaged across all process samples in it
+export interface ThreadSummary {
+  tid: number;
+  name: string;
+  avgUser: number;
+  avgSys: number;
+  avgTotal: number;
+  peakTotal: number;
+  activeShare: number; // 0-1, share of samples in which the thread used CPU
+  cpuShare: number; // 0-1, share of all thread CPU in the window
+}
+
+// One member of a process tree over a window, averaged across all aggregate samples in it
+export interface TreeMemberSummary {
+  pid: number;
+  ppid?: number;
+  command: string;
+  avgUser: number;
+  avgSys: number;
+  avgTotal: number;
+  peakTotal: number;
+  cpuShare: number; // 0-1, share of the tree's CPU in the window
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface DistributionSummary {
+  avg: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  peak: number;
+}
+
+// Distribution and time accounting for a window of process samples, in per-core percent
+export interface UsageSummary {
+  samples: number;
+  windowSeconds: number;
+  cpuSeconds: number; // CPU time consumed (user + sys), in core-seconds
+  secondsAboveThreshold: number;
+  shareAboveThreshold: number; // 0-1, of windowSeconds
+  user: DistributionSummary;
+  sys: DistributionSummary;
+  total: DistributionSummary;
+  memory: DistributionSummary | null; // null when the capture has no memory readings
+}
+
+// Where a series doesn't run on: no samples for several sampling periods, or a new PID took over
+export interface SamplingBreak {
+  kind: 'gap' | 'restart';
+  start: string; // Timestamp of the last sample before the break
+  end: string; // Timestamp of the first sample after it
+  index: number; // Index of the first sample after the break, in time order
+  seconds: number;
+  fromPid?: number; // Restarts only
+  toPid?: number;
+}
+
+// How evenly and continuously a window of process samples was recorded
+export interface DataQualitySummary {
+  samples: number;
+  medianIntervalSeconds: number;
+  breaks: SamplingBreak[];
+  gapSeconds: number; // Time inside gaps, with no samples
+  coverage: number; // 0-1 of the window's span that has samples
+  irregularIntervals: number; // Intervals off the median by more than IRREGULAR_TOLERANCE
+  duplicates: number; // Samples with the same timestamp as the one before
+  outOfOrder: number; // Samples recorded earlier than the one before them
+}
+
+// A labelled point in time shown on the charts: a note added on the dashboard or an imported event
+export interface Annotation {
+  id: string;
+  timestamp: string;
+  label: string;
+  kind: string; // e.g. 'deploy', 'cron', 'gc'; notes added on the charts default to 'note'
+  source: 'user' | 'import';
+}
+
+// Dashboard state the analyzers take into account alongside the samples
+export interface AnalysisContext {
+  cpuThreshold: number;
+  anomalies?: AnomalyRange[];
+  threads?: ThreadSummary[];
+  cpuCount?: number; // Online CPUs on the monitored host, when recorded
+  usage?: UsageSummary;
+  annotations?: Annotation[];
+  dataQuality?: DataQualitySummary;
+}
+
+export type AnalysisProviderId = 'gemini' | 'openai-compatible';
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  model: string;
+  endpoint: string; // Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1
+  apiKey: string; // Optional bearer token for OpenAI-compatible servers; Gemini uses GEMINI_API_KEY
+}
+
+export type LeakVerdict = 'leak' | 'possible-leak' | 'stable' | 'insufficient-data';
+
+// Robust linear fit of the memory baseline (the post-GC troughs) over the selected window
+export interface MemoryTrend {
+  verdict: LeakVerdict;
+  slopePerHour: number; // Percentage points per hour
+  startTime: number; // Epoch ms the fit is anchored at
+  startValue: number; // Fitted memory % at startTime
+  currentValue: number; // Fitted memory % at the last sample
+  consistency: number; // Share of baseline point pairs that rise, 0-1
+  limit: number; // Memory % the projection runs to
+  hoursToLimit: number | null; // null when memory isn't growing; 0 when the limit is already reached
+}
+
+export type AlertMetric = 'total' | 'user' | 'sys' | 'memory' | 'sys-user-ratio' | 'total-rate';
+
+export type AlertComparator = '>' | '>=' | '<' | '<=';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  minDurationSec: number; // Condition must hold this long before it counts as an incident
+  hysteresis: number; // An incident only clears once the metric is this far back past the threshold
+  severity: AnalysisResult['severity'];
+}
+
+export interface AlertIncident {
+  ruleId: string;
+  ruleName: string;
+  severity: AlertRule['severity'];
+  metric: AlertMetric;
+  start: string; // Timestamp of the first sample that met the condition
+  end: string; // Timestamp of the last sample before the incident cleared
+  durationSec: number;
+  samples: number;
+  peak: number; // Worst value of the metric during the incident
+  ongoing: boolean; // Still active at the last sample of a live stream
+}
+
+// Where a dataset came from, used to name its library session
+export interface DatasetSource {
+  name: string;
+  tags: string[];
+}
+
+export interface SavedAnalysis {
+  createdAt: string; // ISO timestamp
+  result: AnalysisResult;
+}
+
+// Library entry for one loaded or streamed dataset. The samples themselves are stored separately
+// so listing sessions doesn't read every capture.
+export interface CaptureSession {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  host?: string;
+  pid?: number;
+  command?: string;
+  tags: string[];
+  sampleCount: number;
+  analyses: SavedAnalysis[]; // Oldest first
+  alertRules: AlertRule[];
+  cpuThreshold: number;
+  annotations?: Annotation[]; // Missing on sessions saved before annotations existed
+}
+
+export interface ComparedDataset {
+  name: string;
+  data: CpuLogEntry[];
+}
+
+// One line of the before/after diff table
+export interface ComparisonRow {
+  label: string;
+  unit: string;
+  baseline: number | null; // null when the dataset has no such metric, e.g. no memory column
+  candidate: number | null;
+  change: number | null; // Percent change from baseline; null when it can't be computed
+  higherIsWorse: boolean | null; // Drives the colouring; null for neutral rows such as duration
+}
+
+export type StreamStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'exited';
+
+export interface StreamExitInfo {
+  pid: number;
+  reason: 'not-found' | 'exited';
+  timestamp: string;
 }
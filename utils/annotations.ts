@@ -0,0 +1,77 @@
+import { Annotation } from '../types';
+import { readDelimited } from './formats/csv';
+import { normalizeTimestamp } from './time';
+
+export const ANNOTATION_KINDS = ['note', 'deploy', 'cron', 'gc', 'restart', 'incident'];
+
+const KIND_COLORS: Record<string, string> = {
+  note: '#e2e8f0',
+  deploy: '#22d3ee',
+  cron: '#a78bfa',
+  gc: '#facc15',
+  restart: '#fb7185',
+  incident: '#f97316',
+};
+
+export const annotationColor = (kind: string) => KIND_COLORS[kind.toLowerCase()] ?? '#94a3b8';
+
+// Field names tried in order; the journald ones cover `journalctl -o json` exports
+const TIMESTAMP_KEYS = ['timestamp', 'time', 'ts', 'date', '__REALTIME_TIMESTAMP'];
+const LABEL_KEYS = ['label', 'message', 'msg', 'text', 'MESSAGE'];
+const KIND_KEYS = ['kind', 'type', 'category', 'SYSLOG_IDENTIFIER'];
+
+const firstOf = (record: Record<string, unknown>, keys: string[]) => {
+  const key = keys.find(k => record[k] !== undefined && record[k] !== null && record[k] !== '');
+  return key === undefined ? undefined : record[key];
+};
+
+// Epoch seconds, milliseconds or (journald) microseconds, or an ISO date and time
+const toTimestamp = (value: unknown): string | null =>
+  typeof value === 'number' || typeof value === 'string' ? normalizeTimestamp(value) : null;
+
+const toAnnotation = (record: Record<string, unknown>): Annotation | null => {
+  const timestamp = toTimestamp(firstOf(record, TIMESTAMP_KEYS));
+  const label = firstOf(record, LABEL_KEYS);
+  if (!timestamp || label === undefined) return null;
+  const kind = firstOf(record, KIND_KEYS);
+  return {
+    id: crypto.randomUUID(),
+    timestamp,
+    label: String(label).trim(),
+    kind: kind === undefined ? 'note' : String(kind).trim().toLowerCase(),
+    source: 'import',
+  };
+};
+
+// Event markers from JSON lines or CSV with timestamp, label and kind columns. Lines without a
+// readable timestamp or label are counted in `skipped`.
+export const parseAnnotations = (input: string): { annotations: Annotation[]; skipped: number } => {
+  const lines = input.split('\n').filter(line => line.trim());
+  const records: (Record<string, unknown> | null)[] = [];
+  if (lines.some(line => line.trim().startsWith('{'))) {
+    lines.forEach(line => {
+      try {
+        const parsed = JSON.parse(line);
+        records.push(typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : null);
+      } catch {
+        records.push(null);
+      }
+    });
+  } else {
+    const { headers, rows } = readDelimited(input);
+    const keys = headers.map(h => h.trim().toLowerCase());
+    rows.forEach(({ cells }) => records.push(Object.fromEntries(keys.map((key, i) => [key, cells[i]?.trim()]))));
+  }
+
+  const annotations = records.map(record => (record ? toAnnotation(record) : null)).filter((a): a is Annotation => a !== null);
+  return { annotations, skipped: records.length - annotations.length };
+};
+
+export const annotationsBetween = (annotations: Annotation[], start: string, end: string) => {
+  const startTs = new Date(start).getTime();
+  const endTs = new Date(end).getTime();
+  return annotations.filter(a => {
+    const t = new Date(a.timestamp).getTime();
+    return t >= startTs && t <= endTs;
+  });
+};
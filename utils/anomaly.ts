@@ -0,0 +1,48 @@
+import { AnomalyRange, CpuLogEntry } from '../types';
+
+const EWMA_SPAN = 30;        // Samples; the baseline forgets older behaviour with alpha = 2 / (span + 1)
+const WARMUP_SAMPLES = 10;   // Samples used to settle the baseline before anything is flagged
+const MIN_STD = 1;           // CPU %; keeps a flat series from flagging every small wobble
+
+export const DEFAULT_ANOMALY_SENSITIVITY = 3.5;
+
+// Rolling EWMA baseline of total CPU; a sample is anomalous when it is more than `sensitivity`
+// standard deviations from the baseline. Anomalous samples are clipped to the band before they
+// update the baseline, so a burst doesn't drag the baseline up with it, while a lasting change in
+// level is still absorbed over a few spans.
+export const detectAnomalies = (data: CpuLogEntry[], sensitivity = DEFAULT_ANOMALY_SENSITIVITY): AnomalyRange[] => {
+  if (data.length <= WARMUP_SAMPLES) return [];
+
+  const alpha = 2 / (EWMA_SPAN + 1);
+  const ranges: AnomalyRange[] = [];
+  let mean = data[0].cpu_user_percent + data[0].cpu_sys_percent;
+  let variance = 0;
+  let current: AnomalyRange | null = null;
+
+  data.forEach((d, i) => {
+    const total = d.cpu_user_percent + d.cpu_sys_percent;
+    const std = Math.max(Math.sqrt(variance), MIN_STD);
+    const z = (total - mean) / std;
+    const kind = z > 0 ? 'spike' : 'drop';
+
+    if (i >= WARMUP_SAMPLES && Math.abs(z) >= sensitivity) {
+      if (current && current.kind === kind && current.endIndex === i - 1) {
+        current.end = d.timestamp;
+        current.endIndex = i;
+        current.peak = kind === 'spike' ? Math.max(current.peak, total) : Math.min(current.peak, total);
+        current.score = Math.max(current.score, Math.abs(z));
+      } else {
+        current = { start: d.timestamp, end: d.timestamp, startIndex: i, endIndex: i, kind, peak: total, expected: mean, score: Math.abs(z) };
+        ranges.push(current);
+      }
+    }
+
+    const clipped = Math.min(mean + sensitivity * std, Math.max(mean - sensitivity * std, total));
+    const diff = (i < WARMUP_SAMPLES ? total : clipped) - mean;
+    const increment = alpha * diff;
+    mean += increment;
+    variance = (1 - alpha) * (variance + diff * increment);
+  });
+
+  return ranges;
+};
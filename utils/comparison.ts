@@ -0,0 +1,87 @@
+import { AlertRule, ComparisonRow, CpuLogEntry } from '../types';
+import { evaluateAlertRules } from '../services/alertService';
+import { inTimeOrder } from './dataQuality';
+import { sampleDurations, summarizeMetric } from './stats';
+
+export interface RelativePoint {
+  t: number; // Seconds since the dataset's first sample
+  user: number;
+  sys: number;
+  total: number;
+  memory?: number;
+}
+
+// Aligns a capture on its own start so runs recorded at different times can be overlaid
+export const toRelativeSeries = (recorded: CpuLogEntry[]): RelativePoint[] => {
+  if (recorded.length === 0) return [];
+  const data = inTimeOrder(recorded);
+  const start = new Date(data[0].timestamp).getTime();
+  return data.map(d => ({
+    t: (new Date(d.timestamp).getTime() - start) / 1000,
+    user: d.cpu_user_percent,
+    sys: d.cpu_sys_percent,
+    total: d.cpu_user_percent + d.cpu_sys_percent,
+    memory: d.memory_percent,
+  }));
+};
+
+const METRICS: { label: string; value: (d: CpuLogEntry) => number | undefined }[] = [
+  { label: 'user CPU', value: d => d.cpu_user_percent },
+  { label: 'sys CPU', value: d => d.cpu_sys_percent },
+  { label: 'total CPU', value: d => d.cpu_user_percent + d.cpu_sys_percent },
+  { label: 'memory', value: d => d.memory_percent },
+];
+
+const durationSec = (data: CpuLogEntry[]) =>
+  data.length < 2 ? 0 : (new Date(data[data.length - 1].timestamp).getTime() - new Date(data[0].timestamp).getTime()) / 1000;
+
+const row = (
+  label: string,
+  unit: string,
+  baseline: number | null,
+  candidate: number | null,
+  higherIsWorse: boolean | null
+): ComparisonRow => ({
+  label,
+  unit,
+  baseline,
+  candidate,
+  change: baseline !== null && candidate !== null && baseline !== 0 ? ((candidate - baseline) / Math.abs(baseline)) * 100 : null,
+  higherIsWorse,
+});
+
+// Diff table rows: avg/p95/peak per metric, incident counts under the same alert rules, and duration.
+// Imported captures can hold out-of-order samples, so both are put in time order first.
+export const compareDatasets = (recordedBaseline: CpuLogEntry[], recordedCandidate: CpuLogEntry[], rules: AlertRule[]): ComparisonRow[] => {
+  const baseline = inTimeOrder(recordedBaseline);
+  const candidate = inTimeOrder(recordedCandidate);
+  const rows: ComparisonRow[] = [];
+  const baselineDurations = sampleDurations(baseline);
+  const candidateDurations = sampleDurations(candidate);
+
+  METRICS.forEach(({ label, value }) => {
+    // Averages are weighted by time, so captures sampled at different rates compare fairly
+    const summarize = (data: CpuLogEntry[], durations: number[]) => {
+      const indexes = data.map((_, i) => i).filter(i => value(data[i]) !== undefined);
+      return indexes.length > 0 ? summarizeMetric(indexes.map(i => value(data[i])!), indexes.map(i => durations[i])) : null;
+    };
+    const before = summarize(baseline, baselineDurations);
+    const after = summarize(candidate, candidateDurations);
+    rows.push(row(`Avg ${label}`, '%', before?.avg ?? null, after?.avg ?? null, true));
+    rows.push(row(`p95 ${label}`, '%', before?.p95 ?? null, after?.p95 ?? null, true));
+    rows.push(row(`Peak ${label}`, '%', before?.peak ?? null, after?.peak ?? null, true));
+  });
+
+  const beforeIncidents = evaluateAlertRules(baseline, rules);
+  const afterIncidents = evaluateAlertRules(candidate, rules);
+  rows.push(row('Incidents', '', beforeIncidents.length, afterIncidents.length, true));
+  (['HIGH', 'MEDIUM', 'LOW'] as const).forEach(severity => {
+    const before = beforeIncidents.filter(i => i.severity === severity).length;
+    const after = afterIncidents.filter(i => i.severity === severity).length;
+    if (before > 0 || after > 0) rows.push(row(`${severity.charAt(0)}${severity.slice(1).toLowerCase()} severity incidents`, '', before, after, true));
+  });
+
+  rows.push(row('Duration', 's', durationSec(baseline), durationSec(candidate), null));
+  rows.push(row('Samples', '', baseline.length, candidate.length, null));
+  return rows;
+};
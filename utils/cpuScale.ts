@@ -0,0 +1,33 @@
+import { CpuLogEntry, CpuScale } from '../types';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Most recent CPU count in the capture, or null when the source didn't record one
+export const cpuCountOf = (data: CpuLogEntry[]): number | null => {
+  for (let i = data.length - 1; i >= 0; i--) {
+    if (data[i].cpu_count) return data[i].cpu_count!;
+  }
+  return null;
+};
+
+// What one unit on the per-core scale is worth on `scale`; thresholds are stored per core
+export const cpuScaleFactor = (scale: CpuScale, cpuCount: number | null) => (scale === 'machine' && cpuCount ? cpuCount : 1);
+
+// User/sys CPU in `scale` units. Each sample is divided by its own CPU count when it has one,
+// so captures spanning a CPU hotplug stay correct.
+export const scaleCpu = (data: CpuLogEntry[], scale: CpuScale, cpuCount: number | null): CpuLogEntry[] => {
+  if (scale === 'core' || !cpuCount) return data;
+  return data.map(d => {
+    const factor = d.cpu_count || cpuCount;
+    return { ...d, cpu_user_percent: round2(d.cpu_user_percent / factor), cpu_sys_percent: round2(d.cpu_sys_percent / factor) };
+  });
+};
+
+// Host CPU is recorded as a percentage of the machine; on the per-core scale a fully busy
+// 8-CPU host reads 800%
+export const hostCpuIn = (d: CpuLogEntry, scale: CpuScale, cpuCount: number | null): number | undefined => {
+  if (d.host_cpu_percent === undefined) return undefined;
+  if (scale === 'machine') return d.host_cpu_percent;
+  const count = d.cpu_count || cpuCount;
+  return count ? round2(d.host_cpu_percent * count) : undefined;
+};
@@ -0,0 +1,79 @@
+import { CpuLogEntry, DataQualitySummary, SamplingBreak } from '../types';
+
+// An interval this many times the median sampling period is a gap in the capture
+export const GAP_FACTOR = 3;
+// Intervals further than this share from the median count as irregular
+export const IRREGULAR_TOLERANCE = 0.5;
+
+const timesOf = (data: CpuLogEntry[]) => data.map(d => new Date(d.timestamp).getTime());
+
+// Stable, and returns `data` itself when it is already in order
+export const inTimeOrder = (data: CpuLogEntry[]) => {
+  const times = timesOf(data);
+  if (times.every((t, i) => i === 0 || t >= times[i - 1])) return data;
+  return data
+    .map((d, i) => ({ d, t: times[i], i }))
+    .sort((a, b) => a.t - b.t || a.i - b.i)
+    .map(({ d }) => d);
+};
+
+// Typical seconds between samples, ignoring duplicate timestamps. `times` are epoch ms in order.
+export const medianIntervalSeconds = (times: number[]) => {
+  const intervals = times.slice(1).map((t, i) => (t - times[i]) / 1000).filter(s => s > 0).sort((a, b) => a - b);
+  return intervals.length === 0 ? 0 : intervals[Math.floor((intervals.length - 1) / 2)];
+};
+
+// Gaps of several sampling periods and PID changes in samples that are in time order
+export const findSamplingBreaks = (data: CpuLogEntry[], median = medianIntervalSeconds(timesOf(data))): SamplingBreak[] => {
+  const times = timesOf(data);
+  const breaks: SamplingBreak[] = [];
+  for (let i = 1; i < data.length; i++) {
+    const seconds = (times[i] - times[i - 1]) / 1000;
+    const restarted = data[i].pid !== data[i - 1].pid;
+    if (!restarted && (median === 0 || seconds <= median * GAP_FACTOR)) continue;
+    breaks.push({
+      kind: restarted ? 'restart' : 'gap',
+      start: data[i - 1].timestamp,
+      end: data[i].timestamp,
+      index: i,
+      seconds,
+      ...(restarted ? { fromPid: data[i - 1].pid, toPid: data[i].pid } : {}),
+    });
+  }
+  return breaks;
+};
+
+// Takes the samples as recorded, so out-of-order ones can still be counted
+export const summarizeDataQuality = (recorded: CpuLogEntry[]): DataQualitySummary => {
+  const recordedTimes = timesOf(recorded);
+  const outOfOrder = recordedTimes.filter((t, i) => i > 0 && t < recordedTimes[i - 1]).length;
+
+  const data = inTimeOrder(recorded);
+  const times = timesOf(data);
+  const median = medianIntervalSeconds(times);
+  const breaks = findSamplingBreaks(data, median);
+  const breakIndexes = new Set(breaks.map(b => b.index));
+
+  let duplicates = 0;
+  let irregularIntervals = 0;
+  for (let i = 1; i < data.length; i++) {
+    const seconds = (times[i] - times[i - 1]) / 1000;
+    if (seconds === 0 && data[i].pid === data[i - 1].pid) duplicates++;
+    else if (!breakIndexes.has(i) && Math.abs(seconds - median) > median * IRREGULAR_TOLERANCE) irregularIntervals++;
+  }
+
+  // A restart can also be a gap, when the new process took a while to come back
+  const gapSeconds = breaks.reduce((s, b) => (b.seconds > median * GAP_FACTOR ? s + b.seconds - median : s), 0);
+  const span = data.length > 1 ? (times[times.length - 1] - times[0]) / 1000 : 0;
+
+  return {
+    samples: data.length,
+    medianIntervalSeconds: median,
+    breaks,
+    gapSeconds,
+    coverage: span > 0 ? Math.max(0, 1 - gapSeconds / span) : 1,
+    irregularIntervals,
+    duplicates,
+    outOfOrder,
+  };
+};
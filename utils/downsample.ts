@@ -0,0 +1,50 @@
+// Largest-Triangle-Three-Buckets downsampling (Steinarsson, 2013). Keeps the first and last
+// points and, from each bucket in between, the point forming the largest triangle with the
+// previously kept point and the next bucket's average, so spikes survive the reduction.
+export const lttb = <T>(
+  data: T[],
+  threshold: number,
+  getX: (d: T, index: number) => number,
+  getY: (d: T) => number
+): T[] => {
+  const n = data.length;
+  if (threshold >= n || threshold < 3) return data;
+
+  const sampled: T[] = [data[0]];
+  const bucketSize = (n - 2) / (threshold - 2);
+  let a = 0; // Index of the previously selected point
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket, used as the third triangle vertex
+    const nextStart = Math.floor((i + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, n);
+    let avgX = 0;
+    let avgY = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgX += getX(data[j], j);
+      avgY += getY(data[j]);
+    }
+    const nextLength = nextEnd - nextStart || 1;
+    avgX /= nextLength;
+    avgY /= nextLength;
+
+    const start = Math.floor(i * bucketSize) + 1;
+    const end = Math.floor((i + 1) * bucketSize) + 1;
+    const ax = getX(data[a], a);
+    const ay = getY(data[a]);
+    let maxArea = -1;
+    let maxIndex = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs((ax - avgX) * (getY(data[j]) - ay) - (ax - getX(data[j], j)) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        maxIndex = j;
+      }
+    }
+    sampled.push(data[maxIndex]);
+    a = maxIndex;
+  }
+
+  sampled.push(data[n - 1]);
+  return sampled;
+};
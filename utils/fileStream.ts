@@ -0,0 +1,35 @@
+// gzip files start with the magic bytes 1f 8b, whatever their name
+export const isGzipFile = async (file: Blob): Promise<boolean> => {
+  const bytes = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return bytes[0] === 0x1f && bytes[1] === 0x8b;
+};
+
+// Decoded text of `file`, transparently gunzipped. `onBytes` reports raw (compressed) bytes as they
+// are read, so progress can be measured against file.size.
+export const openTextStream = async (file: Blob, onBytes?: (count: number) => void): Promise<ReadableStream<string>> => {
+  let bytes: ReadableStream<Uint8Array> = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onBytes?.(chunk.byteLength);
+      controller.enqueue(chunk);
+    },
+  }));
+  if (await isGzipFile(file)) bytes = bytes.pipeThrough(new DecompressionStream('gzip'));
+  return bytes.pipeThrough(new TextDecoderStream());
+};
+
+// First `maxChars` of decoded text, cut back to the last full line, for format detection and CSV headers
+export const peekText = async (file: Blob, maxChars = 64 * 1024): Promise<string> => {
+  const reader = (await openTextStream(file)).getReader();
+  let text = '';
+  try {
+    while (text.length < maxChars) {
+      const { done, value } = await reader.read();
+      if (done) return text;
+      text += value;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  const lastNewline = text.lastIndexOf('\n');
+  return lastNewline > 0 ? text.slice(0, lastNewline) : text;
+};
@@ -0,0 +1,166 @@
+import { CpuLogEntry, ExtendedMetricField, HostField, TreeField } from '../../types';
+import { formatZonedTimestamp, fractionToMs, fromWallClock, LOCAL_TIME_ZONE, normalizeTimestamp, parseWallClock, wallClockOf } from '../time';
+
+export const round2 = (n: number) => parseFloat(n.toFixed(2));
+
+export const splitColumns = (line: string): string[] => line.trim().split(/\s+/);
+
+// Value of column `name` in a whitespace table row; the last column takes the rest of the line
+export const readColumn = (header: string[], cols: string[], name: string): string | undefined => {
+  const i = header.indexOf(name);
+  if (i === -1) return undefined;
+  return i === header.length - 1 ? cols.slice(i).join(' ') : cols[i];
+};
+
+// The table formats (pidstat, top, ps, sar) are read a line at a time. Headers, clocks and
+// samples still waiting for another table are kept between calls, so large files can be parsed as
+// they are read; finish() settles whatever is still waiting at the end of the input.
+export interface LineParser {
+  line: (text: string) => void; // The next line, without its newline
+  finish: () => void;
+}
+
+export const parseLines = (input: string, parser: LineParser) => {
+  input.split('\n').forEach(parser.line);
+  parser.finish();
+};
+
+export const isTimeOfDay = (token: string) => /^\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(token);
+
+export const isMeridiem = (token: string) => /^(AM|PM)$/i.test(token);
+
+// Date from the sysstat banner, e.g. "Linux 5.15.0-91-generic (web01)  01/02/2024  _x86_64_  (8 CPU)"
+export const parseSysstatBannerDate = (lines: string[]): Date | null => {
+  for (const line of lines) {
+    if (!line.startsWith('Linux ')) continue;
+    const us = line.match(/\b(\d{2})\/(\d{2})\/(\d{2,4})\b/);
+    if (us) {
+      const year = us[3].length === 2 ? 2000 + parseInt(us[3], 10) : parseInt(us[3], 10);
+      return new Date(year, parseInt(us[1], 10) - 1, parseInt(us[2], 10));
+    }
+    const iso = line.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (iso) return new Date(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+  }
+  return null;
+};
+
+// CPU count from the same banner's "(8 CPU)"
+export const parseSysstatBannerCpuCount = (lines: string[]): number | undefined => {
+  const banner = lines.find(line => line.startsWith('Linux '));
+  const match = banner?.match(/\((\d+) CPU\)/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// How timestamps without an offset are read: the zone the source machine's clock was set to, and
+// the day ('YYYY-MM-DD') that bare times of day fall on when the log itself doesn't say
+export interface TimestampOptions {
+  timeZone?: string;
+  baseDate?: string;
+}
+
+// Calendar day for bare times of day; today in the source zone unless one was chosen
+export const baseDateOf = ({ timeZone = LOCAL_TIME_ZONE, baseDate }: TimestampOptions): Date => {
+  const chosen = baseDate ? parseWallClock(baseDate) : null;
+  const { year, month, day } = chosen ?? wallClockOf(new Date(), timeZone);
+  return new Date(year, month - 1, day);
+};
+
+// A clock that goes back by more than this wrapped past midnight; smaller steps back are rows
+// logged out of order, which stay on the same day so they show up as such
+const MIDNIGHT_WRAP_SECONDS = 12 * 3600;
+
+// Turns time-of-day readings ("10:00:01", "10:00:01 PM") into full timestamps on `baseDate`'s
+// calendar day in `timeZone`, moving to the next day whenever the clock wraps past midnight.
+export const createTimeOfDayResolver = (baseDate: Date = new Date(), timeZone = LOCAL_TIME_ZONE) => {
+  const day = new Date(baseDate.getFullYear(), baseDate.getMonth(), baseDate.getDate());
+  let lastSeconds = -1;
+
+  return (time: string, meridiem?: string): string | null => {
+    const match = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?$/);
+    if (!match) return null;
+    let hours = parseInt(match[1], 10);
+    if (meridiem) {
+      const pm = meridiem.toUpperCase() === 'PM';
+      if (hours === 12) hours = pm ? 12 : 0;
+      else if (pm) hours += 12;
+    }
+    const seconds = hours * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3] || '0', 10);
+    if (lastSeconds >= 0 && lastSeconds - seconds > MIDNIGHT_WRAP_SECONDS) day.setDate(day.getDate() + 1);
+    lastSeconds = seconds;
+
+    const date = fromWallClock({
+      year: day.getFullYear(),
+      month: day.getMonth() + 1,
+      day: day.getDate(),
+      hour: hours,
+      minute: parseInt(match[2], 10),
+      second: parseInt(match[3] || '0', 10),
+      millisecond: fractionToMs(match[4]),
+    }, timeZone);
+    return formatZonedTimestamp(date, timeZone);
+  };
+};
+
+export const epochSecondsToTimestamp = (seconds: number, timeZone = LOCAL_TIME_ZONE) => formatZonedTimestamp(new Date(seconds * 1000), timeZone);
+
+// Diagnostic for timestamps whose reading involved a guess: an epoch's unit, or a bare time's date
+export const describeTimestampCoercion = (raw: string | number, timestamp: string): { kind: string; detail: string } | null => {
+  const text = String(raw).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return { kind: 'epoch', detail: `epoch ${text} read as ${timestamp}` };
+  if (isTimeOfDay(text.split(/\s+/)[0])) return { kind: 'time-of-day', detail: `time of day "${text}" read as ${timestamp}` };
+  return null;
+};
+
+// Normalizes the timestamp column of JSON lines and CSV rows. Bare times of day share one
+// resolver, so a log that runs past midnight moves on to the next day.
+export const createTimestampReader = (options: TimestampOptions) => {
+  const timeZone = options.timeZone ?? LOCAL_TIME_ZONE;
+  const resolveTime = createTimeOfDayResolver(baseDateOf(options), timeZone);
+  return (value: string | number) => normalizeTimestamp(value, timeZone, resolveTime);
+};
+
+export const EXTENDED_METRIC_FIELDS: ExtendedMetricField[] = [
+  'read_bytes_per_sec',
+  'write_bytes_per_sec',
+  'voluntary_ctx_switches_per_sec',
+  'nonvoluntary_ctx_switches_per_sec',
+  'minor_faults_per_sec',
+  'major_faults_per_sec',
+  'threads',
+  'fd_count',
+  'rss_bytes',
+];
+
+export type ExtendedMetrics = Partial<Record<ExtendedMetricField, number>>;
+
+export const TREE_FIELDS: TreeField[] = ['ppid', 'tree_root', 'tree_size', 'exited_cpu_percent'];
+
+export const HOST_FIELDS: HostField[] = ['cpu_count', 'host_cpu_percent'];
+
+// Optional numeric fields that parsers copy onto entries unchanged
+export const PASSTHROUGH_FIELDS: (TreeField | HostField)[] = [...TREE_FIELDS, ...HOST_FIELDS];
+
+export const toEntry = (
+  timestamp: string,
+  pid: number,
+  user: number,
+  sys: number,
+  memory?: number,
+  command?: string,
+  extended: ExtendedMetrics = {}
+): CpuLogEntry => {
+  const entry: CpuLogEntry = {
+    timestamp,
+    pid,
+    cpu_user_percent: round2(user),
+    cpu_sys_percent: round2(sys),
+    memory_percent: memory !== undefined && !isNaN(memory) ? round2(memory) : undefined,
+    command,
+  };
+  // Only counters the source actually had become keys, so panels can tell "missing" from zero
+  EXTENDED_METRIC_FIELDS.forEach(field => {
+    const value = extended[field];
+    if (value !== undefined && !isNaN(value)) entry[field] = round2(value);
+  });
+  return entry;
+};
@@ -0,0 +1,211 @@
+import { ColumnMapping, CpuLogEntry, MappedField } from '../../types';
+import { createTimestampReader, describeTimestampCoercion, EXTENDED_METRIC_FIELDS, ExtendedMetrics, PASSTHROUGH_FIELDS, toEntry } from './common';
+import { ParseDiagnostics } from './diagnostics';
+
+export const MAPPED_FIELDS: MappedField[] = ['timestamp', 'pid', 'cpu_user_percent', 'cpu_sys_percent', 'memory_percent', 'command', 'tid', 'thread_name', ...PASSTHROUGH_FIELDS, ...EXTENDED_METRIC_FIELDS];
+
+// Exported only when some sample has them
+const SPARSE_FIELDS: MappedField[] = ['tid', 'thread_name', ...PASSTHROUGH_FIELDS, ...EXTENDED_METRIC_FIELDS];
+
+export const REQUIRED_FIELDS: MappedField[] = ['timestamp', 'cpu_user_percent', 'cpu_sys_percent'];
+
+// Header spellings seen in other tools' exports, compared after lowercasing and dropping punctuation
+const FIELD_ALIASES: Record<MappedField, string[]> = {
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'ts'],
+  pid: ['pid', 'processid', 'tgid'],
+  cpu_user_percent: ['cpuuserpercent', 'cpuuser', 'usercpu', 'user', 'usr', 'userpercent'],
+  cpu_sys_percent: ['cpusyspercent', 'cpusys', 'syscpu', 'sys', 'system', 'kernel', 'syspercent'],
+  memory_percent: ['memorypercent', 'mempercent', 'memory', 'mem', 'memused'],
+  command: ['command', 'cmd', 'comm', 'process', 'name', 'args'],
+  tid: ['tid', 'threadid', 'lwp', 'spid'],
+  thread_name: ['threadname', 'thread'],
+  ppid: ['ppid', 'parentpid'],
+  tree_root: ['treeroot', 'rootpid'],
+  tree_size: ['treesize', 'processcount'],
+  exited_cpu_percent: ['exitedcpupercent', 'exitedcpu'],
+  cpu_count: ['cpucount', 'cpus', 'ncpu', 'nproc'],
+  host_cpu_percent: ['hostcpupercent', 'hostcpu', 'hostbusy'],
+  read_bytes_per_sec: ['readbytespersec', 'readbytess', 'readbps'],
+  write_bytes_per_sec: ['writebytespersec', 'writebytess', 'writebps'],
+  voluntary_ctx_switches_per_sec: ['voluntaryctxswitchespersec', 'voluntaryctxtswitches', 'cswchs'],
+  nonvoluntary_ctx_switches_per_sec: ['nonvoluntaryctxswitchespersec', 'nonvoluntaryctxtswitches', 'nvcswchs'],
+  minor_faults_per_sec: ['minorfaultspersec', 'minfltss', 'minflts'],
+  major_faults_per_sec: ['majorfaultspersec', 'majfltss', 'majflts'],
+  threads: ['threads', 'numthreads', 'nlwp', 'thcount'],
+  fd_count: ['fdcount', 'fds', 'openfds', 'fdnr'],
+  rss_bytes: ['rssbytes'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const detectDelimiter = (headerLine: string): string => {
+  if (headerLine.includes('\t')) return '\t';
+  const commas = headerLine.split(',').length;
+  const semicolons = headerLine.split(';').length;
+  return semicolons > commas ? ';' : ',';
+};
+
+export const looksLikeDelimited = (lines: string[]) => {
+  const [header, first] = lines.filter(line => line.trim());
+  if (!header || !first) return false;
+  const delimiter = detectDelimiter(header);
+  return header.split(delimiter).length > 1 && first.split(delimiter).length > 1;
+};
+
+export interface DelimitedRow {
+  line: number; // 1-based line the row starts on
+  cells: string[];
+}
+
+// Splits CSV/TSV text into rows, honouring double-quoted fields (with "" escapes and embedded newlines)
+export const readDelimited = (input: string): { headers: string[]; rows: DelimitedRow[] } => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.trim().split('\n', 1)[0]);
+  const rows: DelimitedRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      row.push(field);
+      if (row.some(cell => cell.trim())) rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push({ line: rowLine, cells: row });
+
+  const [headerRow, ...body] = rows;
+  return { headers: headerRow ? headerRow.cells.map(h => h.trim()) : [], rows: body };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  MAPPED_FIELDS.forEach(field => {
+    // Prefer the most specific alias, e.g. "cpu_user_percent" over a generic "user" column
+    const alias = FIELD_ALIASES[field].find(a => normalized.includes(a));
+    mapping[field] = alias ? headers[normalized.indexOf(alias)] : null;
+  });
+  return mapping;
+};
+
+const toNumber = (value: string | undefined) => {
+  const trimmed = (value ?? '').replace(/%$/, '').trim();
+  return trimmed === '' ? NaN : Number(trimmed);
+};
+
+export const parseDelimited = (input: string, diagnostics: ParseDiagnostics, mapping?: ColumnMapping, readTimestamp = createTimestampReader({})) => {
+  const { headers, rows } = readDelimited(input);
+  const columns = mapping ?? guessColumnMapping(headers);
+  const unmapped = REQUIRED_FIELDS.filter(field => !columns[field]);
+  if (unmapped.length > 0) {
+    diagnostics.reject(1, headers.join(','), 'missing-field', `No column mapped to ${unmapped.join(', ')}`);
+    return;
+  }
+
+  const index = (field: MappedField) => (columns[field] ? headers.indexOf(columns[field]!) : -1);
+  const cell = (cells: string[], field: MappedField) => {
+    const i = index(field);
+    return i === -1 ? undefined : cells[i]?.trim();
+  };
+
+  for (const { line, cells } of rows) {
+    const text = cells.join(',');
+    const rawTimestamp = cell(cells, 'timestamp');
+    if (!rawTimestamp) {
+      diagnostics.reject(line, text, 'missing-field', `"${columns.timestamp}" is empty`);
+      continue;
+    }
+    const timestamp = readTimestamp(rawTimestamp);
+    if (!timestamp) {
+      diagnostics.reject(line, text, 'wrong-type', `"${columns.timestamp}" is not a recognised date or time, got "${rawTimestamp}"`);
+      continue;
+    }
+    const coercion = describeTimestampCoercion(rawTimestamp, timestamp);
+    if (coercion) diagnostics.coerceRepeated(line, 'timestamp', coercion.kind, coercion.detail);
+
+    const numbers: Partial<Record<MappedField, number>> = {};
+    let invalid: MappedField | null = null;
+    for (const field of ['cpu_user_percent', 'cpu_sys_percent', 'memory_percent', 'pid', 'tid', ...PASSTHROUGH_FIELDS, ...EXTENDED_METRIC_FIELDS] as MappedField[]) {
+      const raw = cell(cells, field);
+      if (raw === undefined || raw === '') continue;
+      const value = toNumber(raw);
+      if (isNaN(value)) {
+        invalid = field;
+        break;
+      }
+      numbers[field] = value;
+    }
+    if (invalid) {
+      diagnostics.reject(line, text, 'wrong-type', `"${columns[invalid]}" should be a number, got "${cell(cells, invalid)}"`);
+      continue;
+    }
+    if (numbers.cpu_user_percent === undefined || numbers.cpu_sys_percent === undefined) {
+      const field = numbers.cpu_user_percent === undefined ? 'cpu_user_percent' : 'cpu_sys_percent';
+      diagnostics.reject(line, text, 'missing-field', `"${columns[field]}" is empty`);
+      continue;
+    }
+    if (numbers.pid === undefined && columns.pid) diagnostics.coerce(line, 'pid', 'empty, set to 0');
+
+    const extended: ExtendedMetrics = {};
+    EXTENDED_METRIC_FIELDS.forEach(field => { extended[field] = numbers[field]; });
+
+    const entry = toEntry(
+      timestamp,
+      numbers.pid ?? 0,
+      numbers.cpu_user_percent,
+      numbers.cpu_sys_percent,
+      numbers.memory_percent,
+      cell(cells, 'command') || undefined,
+      extended
+    );
+    if (numbers.tid !== undefined) {
+      entry.tid = numbers.tid;
+      entry.thread_name = cell(cells, 'thread_name') || undefined;
+    }
+    PASSTHROUGH_FIELDS.forEach(field => {
+      if (numbers[field] !== undefined) entry[field] = numbers[field];
+    });
+    diagnostics.accept(entry, line, text);
+  }
+};
+
+const escapeCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Inverse of parseDelimited: the header uses the CpuLogEntry field names so re-imports map automatically
+export const entriesToCsv = (data: CpuLogEntry[]): string => {
+  const fields = MAPPED_FIELDS.filter(field => !SPARSE_FIELDS.includes(field) || data.some(d => d[field] !== undefined));
+  const lines = [fields.join(',')];
+  data.forEach(d => {
+    lines.push(fields.map(field => escapeCsvField(d[field] === undefined ? '' : String(d[field]))).join(','));
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,71 @@
+import { CoercedField, CpuLogEntry, RejectedLine, RejectReason } from '../../types';
+import { EXTENDED_METRIC_FIELDS, PASSTHROUGH_FIELDS } from './common';
+
+// Longest slice of a rejected line kept in the report
+const MAX_TEXT_LENGTH = 200;
+
+export interface ParseDiagnostics {
+  data: CpuLogEntry[];
+  rejected: RejectedLine[];
+  coerced: CoercedField[];
+  // Added to every reported line number, for inputs parsed a chunk at a time
+  lineOffset: number;
+  reject: (line: number, text: string, reason: RejectReason, detail: string) => void;
+  coerce: (line: number, field: string, detail: string) => void;
+  // For coercions every row of a format gets (epoch or time-of-day timestamps): only the first
+  // line of each `kind` is listed, with a count of all of them
+  coerceRepeated: (line: number, field: string, kind: string, detail: string) => void;
+  // Range-checks a parsed entry and keeps it unless a percentage is impossible
+  accept: (entry: CpuLogEntry, line: number, text: string) => void;
+}
+
+// CPU is a percentage of one core, so it may exceed 100 on multi-core hosts; memory may not
+const rangeError = (entry: CpuLogEntry): string | null => {
+  if (entry.cpu_user_percent < 0) return `cpu_user_percent ${entry.cpu_user_percent} is negative`;
+  if (entry.cpu_sys_percent < 0) return `cpu_sys_percent ${entry.cpu_sys_percent} is negative`;
+  if (entry.memory_percent !== undefined && (entry.memory_percent < 0 || entry.memory_percent > 100)) {
+    return `memory_percent ${entry.memory_percent} is outside 0-100`;
+  }
+  if (entry.host_cpu_percent !== undefined && entry.host_cpu_percent > 100) {
+    return `host_cpu_percent ${entry.host_cpu_percent} is above 100`;
+  }
+  const negative = [...PASSTHROUGH_FIELDS, ...EXTENDED_METRIC_FIELDS].find(field => (entry[field] ?? 0) < 0);
+  if (negative) return `${negative} ${entry[negative]} is negative`;
+  return null;
+};
+
+export const createParseDiagnostics = (): ParseDiagnostics => {
+  const repeated = new Map<string, CoercedField>();
+  const diagnostics: ParseDiagnostics = {
+    data: [],
+    rejected: [],
+    coerced: [],
+    lineOffset: 0,
+    reject: (line, text, reason, detail) => {
+      diagnostics.rejected.push({ line: line + diagnostics.lineOffset, text: text.slice(0, MAX_TEXT_LENGTH), reason, detail });
+    },
+    coerce: (line, field, detail) => {
+      diagnostics.coerced.push({ line: line + diagnostics.lineOffset, field, detail });
+    },
+    coerceRepeated: (line, field, kind, detail) => {
+      const key = `${field}:${kind}`;
+      const first = repeated.get(key);
+      if (first) {
+        first.count = (first.count ?? 1) + 1;
+        return;
+      }
+      const entry: CoercedField = { line: line + diagnostics.lineOffset, field, detail, count: 1 };
+      repeated.set(key, entry);
+      diagnostics.coerced.push(entry);
+    },
+    accept: (entry, line, text) => {
+      const error = rangeError(entry);
+      if (error) {
+        diagnostics.reject(line, text, 'out-of-range', error);
+        return;
+      }
+      diagnostics.data.push(entry);
+    },
+  };
+  return diagnostics;
+};
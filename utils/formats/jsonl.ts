@@ -0,0 +1,113 @@
+import { HostField, TreeField } from '../../types';
+import { createTimestampReader, describeTimestampCoercion, EXTENDED_METRIC_FIELDS, ExtendedMetrics, PASSTHROUGH_FIELDS, toEntry } from './common';
+import { ParseDiagnostics } from './diagnostics';
+
+export const looksLikeJsonLines = (lines: string[]) => lines.some(line => line.trim().startsWith('{'));
+
+// Reads a numeric field, accepting numeric strings (reported as coerced).
+// Returns null when the line has to be rejected, undefined when an optional field is absent.
+const readNumber = (
+  record: Record<string, unknown>,
+  field: string,
+  required: boolean,
+  line: number,
+  text: string,
+  diagnostics: ParseDiagnostics
+): number | undefined | null => {
+  const value = record[field];
+  if (value === undefined || value === null) {
+    if (!required) return undefined;
+    diagnostics.reject(line, text, 'missing-field', `"${field}" is missing`);
+    return null;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value.trim().replace(/%$/, '')))) {
+    const parsed = Number(value.trim().replace(/%$/, ''));
+    diagnostics.coerce(line, field, `string "${value}" read as number ${parsed}`);
+    return parsed;
+  }
+  diagnostics.reject(line, text, 'wrong-type', `"${field}" should be a number, got ${JSON.stringify(value)}`);
+  return null;
+};
+
+// One JSON object per line, as written by lpm-collect and the original monitor.py
+export const parseJsonLines = (input: string, diagnostics: ParseDiagnostics, readTimestamp = createTimestampReader({})) => {
+  input.split('\n').forEach((rawLine, i) => {
+    const line = i + 1;
+    const text = rawLine.trim();
+    if (!text) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      diagnostics.reject(line, text, 'invalid-json', e instanceof Error ? e.message : 'Invalid JSON');
+      return;
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      diagnostics.reject(line, text, 'wrong-type', 'Line is not a JSON object');
+      return;
+    }
+    const record = parsed as Record<string, unknown>;
+
+    const user = readNumber(record, 'cpu_user_percent', true, line, text, diagnostics);
+    if (user === null) return;
+    const sys = readNumber(record, 'cpu_sys_percent', true, line, text, diagnostics);
+    if (sys === null) return;
+    const memory = readNumber(record, 'memory_percent', false, line, text, diagnostics);
+    if (memory === null) return;
+    const pid = readNumber(record, 'pid', false, line, text, diagnostics);
+    if (pid === null) return;
+    const tid = readNumber(record, 'tid', false, line, text, diagnostics);
+    if (tid === null) return;
+    const passthrough: Partial<Record<TreeField | HostField, number>> = {};
+    for (const field of PASSTHROUGH_FIELDS) {
+      const value = readNumber(record, field, false, line, text, diagnostics);
+      if (value === null) return;
+      passthrough[field] = value;
+    }
+    const extended: ExtendedMetrics = {};
+    for (const field of EXTENDED_METRIC_FIELDS) {
+      const value = readNumber(record, field, false, line, text, diagnostics);
+      if (value === null) return;
+      extended[field] = value;
+    }
+
+    // A sample without a time can't be placed on the timeline, so it is dropped rather than put at "now"
+    if (record.timestamp === undefined || record.timestamp === null || record.timestamp === '') {
+      diagnostics.reject(line, text, 'missing-field', '"timestamp" is missing');
+      return;
+    }
+    if (typeof record.timestamp !== 'string' && typeof record.timestamp !== 'number') {
+      diagnostics.reject(line, text, 'wrong-type', `"timestamp" should be a string or epoch number, got ${JSON.stringify(record.timestamp)}`);
+      return;
+    }
+    const timestamp = readTimestamp(record.timestamp);
+    if (!timestamp) {
+      diagnostics.reject(line, text, 'wrong-type', `"timestamp" is not a recognised date or time, got ${JSON.stringify(record.timestamp)}`);
+      return;
+    }
+    const coercion = describeTimestampCoercion(record.timestamp, timestamp);
+    if (coercion) diagnostics.coerceRepeated(line, 'timestamp', coercion.kind, coercion.detail);
+
+    if (pid === undefined) diagnostics.coerce(line, 'pid', 'missing, set to 0');
+
+    let command: string | undefined;
+    if (typeof record.command === 'string') {
+      command = record.command;
+    } else if (record.command !== undefined && record.command !== null) {
+      command = String(record.command);
+      diagnostics.coerce(line, 'command', `${typeof record.command} read as string`);
+    }
+
+    const entry = toEntry(timestamp, pid ?? 0, user, sys, memory, command, extended);
+    if (tid !== undefined) {
+      entry.tid = tid;
+      if (record.thread_name !== undefined && record.thread_name !== null) entry.thread_name = String(record.thread_name);
+    }
+    PASSTHROUGH_FIELDS.forEach(field => {
+      if (passthrough[field] !== undefined) entry[field] = passthrough[field];
+    });
+    diagnostics.accept(entry, line, text);
+  });
+};
@@ -0,0 +1,130 @@
+import { ExtendedMetrics, LineParser, parseLines, parseSysstatBannerCpuCount, splitColumns, TimestampOptions, toEntry } from './common';
+import { ParseDiagnostics } from './diagnostics';
+import { createSysstatReader } from './sysstat';
+
+// -u tables have %usr, -r minflt/s, -d kB_rd/s, -w cswch/s and -v threads
+const isPidstatHeader = (cols: string[]) =>
+  cols.includes('PID') && ['%usr', 'minflt/s', 'kB_rd/s', 'cswch/s', 'threads'].some(name => cols.includes(name));
+
+// pidstat column, the entry field it fills and the factor that converts it (kB to bytes)
+const EXTENDED_COLUMNS: [string, keyof ExtendedMetrics, number][] = [
+  ['kB_rd/s', 'read_bytes_per_sec', 1024],
+  ['kB_wr/s', 'write_bytes_per_sec', 1024],
+  ['cswch/s', 'voluntary_ctx_switches_per_sec', 1],
+  ['nvcswch/s', 'nonvoluntary_ctx_switches_per_sec', 1],
+  ['minflt/s', 'minor_faults_per_sec', 1],
+  ['majflt/s', 'major_faults_per_sec', 1],
+  ['threads', 'threads', 1],
+  ['fd-nr', 'fd_count', 1],
+  ['RSS', 'rss_bytes', 1024],
+];
+
+export const looksLikePidstat = (lines: string[]) => lines.some(line => isPidstatHeader(splitColumns(line.replace(/^#/, ''))));
+
+interface MergedRow {
+  line: number;
+  text: string;
+  timestamp: string;
+  pid: number;
+  user?: number;
+  sys?: number;
+  mem?: number;
+  command?: string;
+  extended: ExtendedMetrics;
+}
+
+const readNumber = (values: Record<string, string>, name: string, row: { line: number; text: string }, diagnostics: ParseDiagnostics) => {
+  if (values[name] === undefined) return undefined;
+  const value = parseFloat(values[name]);
+  if (isNaN(value)) {
+    diagnostics.reject(row.line, row.text, 'wrong-type', `"${name}" should be a number, got "${values[name]}"`);
+    return null;
+  }
+  return value;
+};
+
+// pidstat -u [-r] [-d] [-w] [-v] [-h]. Without -h each report comes as a separate table per
+// interval, so rows are merged on timestamp + PID. A merged sample is complete once every kind of
+// table has moved on to a later time, and is accepted then rather than at the end of the input.
+export const createPidstatParser = (diagnostics: ParseDiagnostics, options: TimestampOptions = {}): LineParser => {
+  const readRow = createSysstatReader(isPidstatHeader, diagnostics, options);
+  const byKey = new Map<string, MergedRow>();
+  const latest = new Map<string, number>(); // Newest time seen in each kind of table
+  let flushedBefore = -Infinity; // Rows older than this have been emitted
+  let cpuCount: number | undefined;
+  let lineNumber = 0;
+
+  // pidstat's %CPU is of one core, like the collector's, so the banner's CPU count applies as is
+  const emit = (row: MergedRow) => {
+    if (row.user === undefined || row.sys === undefined) {
+      diagnostics.reject(row.line, row.text, 'missing-field', 'Memory, I/O or task row without a matching CPU (-u) row');
+      return;
+    }
+    const entry = toEntry(row.timestamp, row.pid, row.user, row.sys, row.mem, row.command, row.extended);
+    if (cpuCount) entry.cpu_count = cpuCount;
+    diagnostics.accept(entry, row.line, row.text);
+  };
+
+  const flushBefore = (time: number) => byKey.forEach((row, key) => {
+    if (new Date(row.timestamp).getTime() >= time) return;
+    emit(row);
+    byKey.delete(key);
+  });
+
+  return {
+    line: (rawLine) => {
+      lineNumber++;
+      cpuCount = cpuCount ?? parseSysstatBannerCpuCount([rawLine.trim()]);
+      const row = readRow(rawLine, lineNumber);
+      if (!row) return;
+
+      const { timestamp, values } = row;
+      // The oldest table time can only move when a table reaches a new time, so pending rows are
+      // scanned once per interval rather than once per row
+      const time = new Date(timestamp).getTime();
+      if (latest.get(row.table) !== time) {
+        latest.set(row.table, time);
+        let oldest = Infinity;
+        latest.forEach(t => { oldest = Math.min(oldest, t); });
+        if (oldest > flushedBefore) {
+          flushedBefore = oldest;
+          flushBefore(oldest);
+        }
+      }
+
+      const pid = parseInt(values['PID'], 10);
+      if (isNaN(pid)) {
+        diagnostics.reject(row.line, row.text, 'wrong-type', `"PID" should be a number, got "${values['PID']}"`);
+        return;
+      }
+      const user = readNumber(values, '%usr', row, diagnostics);
+      const sys = readNumber(values, '%system', row, diagnostics);
+      const mem = readNumber(values, '%MEM', row, diagnostics);
+      if (user === null || sys === null || mem === null) return;
+      const extended: ExtendedMetrics = {};
+      let invalid = false;
+      for (const [column, field, factor] of EXTENDED_COLUMNS) {
+        const value = readNumber(values, column, row, diagnostics);
+        if (value === null) invalid = true;
+        else if (value !== undefined) extended[field] = value * factor;
+      }
+      if (invalid) return;
+
+      const key = `${timestamp}|${pid}`;
+      const merged = byKey.get(key) ?? { line: row.line, text: row.text, timestamp, pid, extended: {} };
+      Object.assign(merged.extended, extended);
+      if (user !== undefined) merged.user = user;
+      if (sys !== undefined) merged.sys = sys;
+      if (mem !== undefined) merged.mem = mem;
+      if (values['Command'] !== undefined) merged.command = values['Command'];
+      byKey.set(key, merged);
+    },
+    finish: () => {
+      byKey.forEach(emit);
+      byKey.clear();
+    },
+  };
+};
+
+export const parsePidstat = (input: string, diagnostics: ParseDiagnostics, options: TimestampOptions = {}) =>
+  parseLines(input, createPidstatParser(diagnostics, options));
@@ -0,0 +1,82 @@
+import { formatLocalTimestamp, normalizeTimestamp, TimeOfDayResolver } from '../time';
+import { baseDateOf, createTimeOfDayResolver, LineParser, parseLines, readColumn, isTimeOfDay, splitColumns, TimestampOptions, toEntry } from './common';
+import { ParseDiagnostics } from './diagnostics';
+
+const COMMAND_COLUMNS = ['COMMAND', 'CMD', 'ARGS', 'COMM'];
+
+const isPsHeader = (cols: string[]) => cols.includes('%CPU') && !cols.includes('%usr');
+
+export const looksLikePs = (lines: string[]) => lines.some(line => isPsHeader(splitColumns(line)));
+
+// Recognises the timestamp a loop prints between ps calls: `date`, `date -Is`, `date +%s` or `date +%T`
+const parseMarkerLine = (line: string, timeZone: string | undefined, resolveTime: TimeOfDayResolver): string | null => {
+  if (!/^\d{9,10}$/.test(line) && !isTimeOfDay(line) && (!/\d{1,2}:\d{2}/.test(line) || !/\d{4}/.test(line))) return null;
+  return normalizeTimestamp(line, timeZone, resolveTime);
+};
+
+// Output of a `ps -o pid,%cpu,%mem,cmd -p PID` loop (or `ps aux`). ps has no user/system split
+// and its %CPU is averaged over the process lifetime, so it is recorded as user time with 0% system.
+// Samples without a preceding `date` line are spaced one second apart, ending now; as their count
+// is only known at the end, they wait until then.
+export const createPsParser = (diagnostics: ParseDiagnostics, options: TimestampOptions = {}): LineParser => {
+  const resolveTime = createTimeOfDayResolver(baseDateOf(options), options.timeZone);
+  const undated: { line: number; text: string; pid: number; cpu: number; mem: number; command?: string }[] = [];
+  let timestamp: string | null = null;
+  let header: string[] | null = null;
+  let lineNumber = 0;
+
+  return {
+    line: (rawLine) => {
+      lineNumber++;
+      const line = rawLine.trim();
+      if (!line) return;
+
+      const cols = splitColumns(line);
+      if (isPsHeader(cols)) {
+        header = cols;
+        return;
+      }
+      const marker = parseMarkerLine(line, options.timeZone, resolveTime);
+      if (marker) {
+        timestamp = marker;
+        return;
+      }
+      if (!header) return;
+      if (cols.length < header.length) {
+        diagnostics.reject(lineNumber, line, 'missing-field', `Expected ${header.length} columns, found ${cols.length}`);
+        return;
+      }
+
+      const col = (name: string) => readColumn(header!, cols, name);
+      const cpu = parseFloat(col('%CPU') ?? '');
+      if (isNaN(cpu)) {
+        diagnostics.reject(lineNumber, line, 'wrong-type', `"%CPU" should be a number, got "${col('%CPU')}"`);
+        return;
+      }
+      const commandColumn = COMMAND_COLUMNS.find(name => header!.includes(name));
+      const row = {
+        line: lineNumber,
+        text: line,
+        pid: parseInt(col('PID') ?? '0', 10) || 0,
+        cpu,
+        mem: parseFloat(col('%MEM') ?? ''),
+        command: commandColumn ? col(commandColumn) : undefined,
+      };
+
+      if (timestamp) diagnostics.accept(toEntry(timestamp, row.pid, row.cpu, 0, row.mem, row.command), row.line, row.text);
+      else undated.push(row);
+    },
+    finish: () => {
+      const now = Date.now();
+      undated.forEach((row, i) => {
+        const rowTimestamp = formatLocalTimestamp(new Date(now - (undated.length - 1 - i) * 1000));
+        diagnostics.coerceRepeated(row.line, 'timestamp', 'no-date', `no preceding date line, set to ${rowTimestamp}`);
+        diagnostics.accept(toEntry(rowTimestamp, row.pid, row.cpu, 0, row.mem, row.command), row.line, row.text);
+      });
+      undated.length = 0;
+    },
+  };
+};
+
+export const parsePs = (input: string, diagnostics: ParseDiagnostics, options: TimestampOptions = {}) =>
+  parseLines(input, createPsParser(diagnostics, options));
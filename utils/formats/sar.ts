@@ -0,0 +1,64 @@
+import { LineParser, parseLines, splitColumns, TimestampOptions, toEntry } from './common';
+import { ParseDiagnostics } from './diagnostics';
+import { createSysstatReader } from './sysstat';
+
+const isSarCpuHeader = (cols: string[]) => cols.includes('CPU') && cols.includes('%user') && !cols.includes('PID');
+const isSarMemHeader = (cols: string[]) => cols.includes('%memused') && !cols.includes('PID');
+
+export const looksLikeSar = (lines: string[]) => lines.some(line => isSarCpuHeader(splitColumns(line)));
+
+// sar -u [-r]. sar reports host-wide usage rather than a single process, so entries use PID 0
+// and only the "all" CPU row is kept when per-core rows (-P ALL) are present. sar prints the whole
+// CPU table before the memory one, so CPU rows wait until the memory reading for their time arrives
+// or the input ends.
+export const createSarParser = (diagnostics: ParseDiagnostics, options: TimestampOptions = {}): LineParser => {
+  const readMemRow = createSysstatReader(isSarMemHeader, diagnostics, options);
+  const readCpuRow = createSysstatReader(isSarCpuHeader, diagnostics, options);
+  const memByTime = new Map<string, number>();
+  const waiting = new Map<string, { user: number; sys: number; line: number; text: string }>();
+  let lineNumber = 0;
+
+  const accept = (timestamp: string, { user, sys, line, text }: { user: number; sys: number; line: number; text: string }) =>
+    diagnostics.accept(toEntry(timestamp, 0, user, sys, memByTime.get(timestamp), 'sar (all CPUs)'), line, text);
+
+  return {
+    line: (rawLine) => {
+      lineNumber++;
+      const memRow = readMemRow(rawLine, lineNumber);
+      if (memRow) {
+        const mem = parseFloat(memRow.values['%memused']);
+        if (isNaN(mem)) {
+          diagnostics.reject(memRow.line, memRow.text, 'wrong-type', `"%memused" should be a number, got "${memRow.values['%memused']}"`);
+          return;
+        }
+        memByTime.set(memRow.timestamp, mem);
+        const cpu = waiting.get(memRow.timestamp);
+        if (cpu) {
+          waiting.delete(memRow.timestamp);
+          accept(memRow.timestamp, cpu);
+        }
+        return;
+      }
+
+      const row = readCpuRow(rawLine, lineNumber);
+      if (!row || row.values['CPU'] !== 'all') return;
+      // %nice is user-mode time at a lowered priority
+      const user = parseFloat(row.values['%user']) + (parseFloat(row.values['%nice']) || 0);
+      const sys = parseFloat(row.values['%system']);
+      if (isNaN(user) || isNaN(sys)) {
+        diagnostics.reject(row.line, row.text, 'wrong-type', '"%user" and "%system" should be numbers');
+        return;
+      }
+      const cpu = { user, sys, line: row.line, text: row.text };
+      if (memByTime.has(row.timestamp)) accept(row.timestamp, cpu);
+      else waiting.set(row.timestamp, cpu);
+    },
+    finish: () => {
+      waiting.forEach((cpu, timestamp) => accept(timestamp, cpu));
+      waiting.clear();
+    },
+  };
+};
+
+export const parseSar = (input: string, diagnostics: ParseDiagnostics, options: TimestampOptions = {}) =>
+  parseLines(input, createSarParser(diagnostics, options));
@@ -0,0 +1,77 @@
+import { ParseDiagnostics } from './diagnostics';
+import { baseDateOf, createTimeOfDayResolver, epochSecondsToTimestamp, isMeridiem, isTimeOfDay, parseSysstatBannerDate, splitColumns, TimestampOptions } from './common';
+
+export interface SysstatRow {
+  line: number;
+  text: string;
+  timestamp: string;
+  table: string; // Header of the table the row is in, identifying its kind (-u, -r, ...)
+  values: Record<string, string>;
+}
+
+// Number of leading tokens that make up the time column ("1704200000", "10:00:01" or "10:00:01 AM")
+const timeTokenCount = (cols: string[]): number => {
+  if (/^\d{9,}$/.test(cols[0])) return 1;
+  if (isTimeOfDay(cols[0])) return cols[1] && isMeridiem(cols[1]) ? 2 : 1;
+  return 0;
+};
+
+// Header rows are column names; data rows are mostly numbers (plus a CPU id, interface or command)
+const isHeaderRow = (cols: string[]) => cols.filter(c => isNaN(parseFloat(c))).length > cols.length / 2;
+
+// Reads the column tables printed by pidstat and sar, one line at a time; returns the data row a line
+// holds, or null. Each block starts with a header row (prefixed with '#' in pidstat -h mode) naming
+// the columns; the header stays in effect until the next one, and only tables whose header satisfies
+// `isHeader` produce rows. The last column swallows any remaining tokens, since commands can contain
+// spaces. Each kind of table keeps its own clock so that `sar -u -r` reports, which print one full
+// table after the other, don't look like they wrapped past midnight.
+export const createSysstatReader = (
+  isHeader: (columns: string[]) => boolean,
+  diagnostics: ParseDiagnostics,
+  options: TimestampOptions = {}
+) => {
+  let baseDate: Date | null = null; // From the banner, which comes before any table
+  const resolvers = new Map<string, ReturnType<typeof createTimeOfDayResolver>>();
+  let header: string[] | null = null;
+  let table = '';
+
+  return (rawLine: string, lineNumber: number): SysstatRow | null => {
+    const line = rawLine.trim();
+    if (line.startsWith('Linux ')) baseDate = baseDate ?? parseSysstatBannerDate([line]);
+    if (!line || line.startsWith('Linux ') || /^(Average|Summary)/i.test(line)) return null;
+
+    const cols = splitColumns(line.replace(/^#/, ''));
+    const skip = timeTokenCount(cols);
+
+    const named = cols.slice(cols[0] === 'Time' ? 1 : skip);
+    if (isHeaderRow(named)) {
+      header = isHeader(named) ? named : null;
+      if (!header) return null;
+      table = header.join(' ');
+      if (!resolvers.has(table)) resolvers.set(table, createTimeOfDayResolver(baseDate ?? baseDateOf(options), options.timeZone));
+      return null;
+    }
+    // sar marks reboots with "<time> LINUX RESTART" rows
+    if (!header || /\bRESTART\b/.test(line)) return null;
+
+    const timestamp = skip === 0 ? null : skip === 1 && !isTimeOfDay(cols[0])
+      ? epochSecondsToTimestamp(parseInt(cols[0], 10), options.timeZone)
+      : resolvers.get(table)!(cols[0], skip === 2 ? cols[1] : undefined);
+    if (!timestamp) {
+      diagnostics.reject(lineNumber, line, 'wrong-type', `Row does not start with a time, got "${cols[0]}"`);
+      return null;
+    }
+
+    const data = cols.slice(skip);
+    if (data.length < header.length) {
+      diagnostics.reject(lineNumber, line, 'missing-field', `Expected ${header.length} columns, found ${data.length}`);
+      return null;
+    }
+
+    const values: Record<string, string> = {};
+    header.forEach((name, col) => {
+      values[name] = col === header!.length - 1 ? data.slice(col).join(' ') : data[col];
+    });
+    return { line: lineNumber, text: line, timestamp, table, values };
+  };
+};
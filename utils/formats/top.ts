@@ -0,0 +1,58 @@
+import { baseDateOf, createTimeOfDayResolver, LineParser, parseLines, readColumn, splitColumns, TimestampOptions, toEntry } from './common';
+import { ParseDiagnostics } from './diagnostics';
+
+const SNAPSHOT_HEADER = /^top - (\d{1,2}:\d{2}:\d{2})\b/;
+
+export const looksLikeTop = (lines: string[]) => lines.some(line => SNAPSHOT_HEADER.test(line.trim()));
+
+// Some locales print "6,0" instead of "6.0"
+const num = (value: string | undefined) => parseFloat((value ?? '').replace(',', '.'));
+
+// top -b [-p PID]. Each snapshot starts with "top - HH:MM:SS up ..." followed by the process table.
+// top only reports a combined %CPU per process, so it is recorded as user time with 0% system.
+export const createTopParser = (diagnostics: ParseDiagnostics, options: TimestampOptions = {}): LineParser => {
+  const resolveTime = createTimeOfDayResolver(baseDateOf(options), options.timeZone);
+  let timestamp: string | null = null;
+  let header: string[] | null = null;
+  let lineNumber = 0;
+
+  return {
+    line: (rawLine) => {
+      lineNumber++;
+      const line = rawLine.trim();
+      const snapshot = line.match(SNAPSHOT_HEADER);
+      if (snapshot) {
+        timestamp = resolveTime(snapshot[1]);
+        header = null;
+        return;
+      }
+      if (!line || !timestamp) return;
+
+      const cols = splitColumns(line);
+      if (cols.includes('PID') && cols.some(c => c === '%CPU' || c === 'CPU%')) {
+        header = cols;
+        return;
+      }
+      // Summary lines (Tasks:, %Cpu(s):, MiB Mem:) come before the process table
+      if (!header) return;
+      if (cols.length < header.length) {
+        diagnostics.reject(lineNumber, line, 'missing-field', `Expected ${header.length} columns, found ${cols.length}`);
+        return;
+      }
+
+      const col = (name: string) => readColumn(header!, cols, name);
+      const pid = parseInt(col('PID') ?? '', 10);
+      const cpu = num(col('%CPU') ?? col('CPU%'));
+      if (isNaN(pid) || isNaN(cpu)) {
+        diagnostics.reject(lineNumber, line, 'wrong-type', '"PID" and "%CPU" should be numbers');
+        return;
+      }
+
+      diagnostics.accept(toEntry(timestamp, pid, cpu, 0, num(col('%MEM') ?? col('MEM%')), col('COMMAND')), lineNumber, line);
+    },
+    finish: () => {},
+  };
+};
+
+export const parseTop = (input: string, diagnostics: ParseDiagnostics, options: TimestampOptions = {}) =>
+  parseLines(input, createTopParser(diagnostics, options));
@@ -0,0 +1,140 @@
+import { CpuLogEntry, MemoryTrend } from '../types';
+
+const MAX_BUCKETS = 30;             // Time buckets the window is split into; each contributes its minimum
+const MIN_BUCKETS = 4;              // Fewer means too few GC cycles for buckets; minima between collections are used
+const BUCKET_CYCLES = 1.5;          // Bucket width in GC cycles, so every bucket holds a trough
+const GC_DROP_SHARE = 0.2;          // A fall of this share of the window's range counts as a collection
+const MIN_POINTS = 6;               // Memory samples needed for any fit
+const MIN_SPAN_SEC = 60;            // Shorter windows can't support a per-hour rate
+const LEAK_GROWTH_PER_HOUR = 1;     // Percentage points per hour
+const POSSIBLE_LEAK_GROWTH_PER_HOUR = 0.2;
+const LEAK_CONSISTENCY = 0.75;      // Share of rising baseline pairs required for a verdict
+const POSSIBLE_LEAK_CONSISTENCY = 0.6;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Indexes of the samples where a collection shows: falls from the running peak larger than
+// GC_DROP_SHARE of the range. Falls spread over several samples count once, at their first sample.
+const findCollections = (points: { t: number; m: number }[]) => {
+  // A loop rather than spreading into Math.max, which overflows the stack on long captures
+  let low = Infinity;
+  let high = -Infinity;
+  points.forEach(p => {
+    low = Math.min(low, p.m);
+    high = Math.max(high, p.m);
+  });
+  const dropSize = (high - low) * GC_DROP_SHARE;
+  let peak = points[0].m;
+  const drops: number[] = [];
+  points.forEach((p, i) => {
+    if (p.m < peak - dropSize && dropSize > 0) {
+      drops.push(i);
+      peak = p.m;
+    } else {
+      peak = Math.max(peak, p.m);
+    }
+  });
+  return drops;
+};
+
+const lowest = (points: { t: number; m: number }[]) => points.reduce((low, p) => (p.m < low.m ? p : low));
+
+// Garbage-collected runtimes produce a sawtooth: memory climbs until a collection drops it back.
+// The troughs are what a leak moves, so the window is split into time buckets at least one GC
+// cycle wide and only each bucket's minimum is kept. With too few collections for MIN_BUCKETS
+// buckets, each stretch between collections contributes its minimum instead. Returns null when
+// that still leaves fewer than two points.
+const baselinePoints = (points: { t: number; m: number }[]) => {
+  const start = points[0].t;
+  const span = points[points.length - 1].t - start;
+  const drops = findCollections(points);
+  const bucketCount = drops.length === 0
+    ? MAX_BUCKETS
+    : Math.min(MAX_BUCKETS, Math.floor(drops.length / BUCKET_CYCLES));
+  if (bucketCount < MIN_BUCKETS) {
+    const edges = [0, ...drops, points.length];
+    const minima = edges.slice(1).map((end, i) => lowest(points.slice(edges[i], end)));
+    return minima.length >= 2 ? minima : null;
+  }
+
+  const buckets = new Map<number, { t: number; m: number }>();
+  points.forEach(p => {
+    const bucket = Math.min(bucketCount - 1, Math.floor(((p.t - start) / span) * bucketCount));
+    const current = buckets.get(bucket);
+    if (!current || p.m < current.m) buckets.set(bucket, p);
+  });
+  return [...buckets.values()];
+};
+
+// Theil-Sen fit (median of pairwise slopes) of the baseline, which ignores the odd outlier that
+// would drag a least-squares line around. Returns null when there is no memory column.
+export const fitMemoryTrend = (data: CpuLogEntry[], limit = 100): MemoryTrend | null => {
+  const points = data
+    .filter(d => d.memory_percent !== undefined)
+    .map(d => ({ t: new Date(d.timestamp).getTime(), m: d.memory_percent! }))
+    .filter(p => !isNaN(p.t));
+  if (points.length === 0) return null;
+
+  const startTime = points[0].t;
+  const lastTime = points[points.length - 1].t;
+  const baseline = points.length >= MIN_POINTS && (lastTime - startTime) / 1000 >= MIN_SPAN_SEC
+    ? baselinePoints(points)
+    : null;
+  if (!baseline) {
+    const lastValue = points[points.length - 1].m;
+    return {
+      verdict: 'insufficient-data',
+      slopePerHour: 0,
+      startTime,
+      startValue: lastValue,
+      currentValue: lastValue,
+      consistency: 0,
+      limit,
+      hoursToLimit: null,
+    };
+  }
+
+  const hours = (t: number) => (t - startTime) / 3_600_000;
+  const slopes: number[] = [];
+  for (let i = 0; i < baseline.length; i++) {
+    for (let j = i + 1; j < baseline.length; j++) {
+      const dt = hours(baseline[j].t) - hours(baseline[i].t);
+      if (dt > 0) slopes.push((baseline[j].m - baseline[i].m) / dt);
+    }
+  }
+  const slopePerHour = median(slopes);
+  const startValue = median(baseline.map(p => p.m - slopePerHour * hours(p.t)));
+  const currentValue = startValue + slopePerHour * hours(lastTime);
+
+  const moving = slopes.filter(s => s !== 0);
+  const consistency = moving.length > 0 ? moving.filter(s => s > 0).length / moving.length : 0;
+
+  let verdict: MemoryTrend['verdict'] = 'stable';
+  if (slopePerHour >= LEAK_GROWTH_PER_HOUR && consistency >= LEAK_CONSISTENCY) {
+    verdict = 'leak';
+  } else if (slopePerHour >= POSSIBLE_LEAK_GROWTH_PER_HOUR && consistency >= POSSIBLE_LEAK_CONSISTENCY) {
+    verdict = 'possible-leak';
+  }
+
+  let hoursToLimit: number | null = null;
+  if (currentValue >= limit) hoursToLimit = 0;
+  else if (slopePerHour > 0) hoursToLimit = (limit - currentValue) / slopePerHour;
+
+  return { verdict, slopePerHour, startTime, startValue, currentValue, consistency, limit, hoursToLimit };
+};
+
+// Value of the fitted line at `time` (epoch ms), for drawing it alongside the samples
+export const memoryTrendAt = (trend: MemoryTrend, time: number) =>
+  trend.startValue + trend.slopePerHour * ((time - trend.startTime) / 3_600_000);
+
+export const formatHoursToLimit = (hours: number | null): string => {
+  if (hours === null) return 'never';
+  if (hours === 0) return 'now';
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+};
@@ -1,31 +1,181 @@
-import { CpuLogEntry } from '../types';
+import { ColumnMapping, CpuLogEntry, LogFormat, ParseResult } from '../types';
+import { guessColumnMapping, looksLikeDelimited, parseDelimited, readDelimited, REQUIRED_FIELDS } from './formats/csv';
+import { createTimestampReader, LineParser, TimestampOptions } from './formats/common';
+import { createParseDiagnostics, ParseDiagnostics } from './formats/diagnostics';
+import { looksLikeJsonLines, parseJsonLines } from './formats/jsonl';
+import { createPidstatParser, looksLikePidstat, parsePidstat } from './formats/pidstat';
+import { createPsParser, looksLikePs, parsePs } from './formats/ps';
+import { createSarParser, looksLikeSar, parseSar } from './formats/sar';
+import { createTopParser, looksLikeTop, parseTop } from './formats/top';
 
-export const parseLogData = (input: string): CpuLogEntry[] => {
-  const lines = input.trim().split('\n');
-  const data: CpuLogEntry[] = [];
+export const LOG_FORMAT_LABELS: Record<LogFormat, string> = {
+  jsonl: 'JSON lines',
+  csv: 'CSV / TSV',
+  pidstat: 'pidstat',
+  top: 'top -b',
+  ps: 'ps',
+  sar: 'sar',
+};
+
+export interface ParseOptions extends TimestampOptions {
+  columnMapping?: ColumnMapping; // CSV/TSV only; guessed from the header row when omitted
+}
+
+// Each parser reports accepted entries and per-line problems through `diagnostics`
+const PARSERS: Record<LogFormat, (input: string, diagnostics: ParseDiagnostics, options: ParseOptions) => void> = {
+  jsonl: (input, diagnostics, options) => parseJsonLines(input, diagnostics, createTimestampReader(options)),
+  csv: (input, diagnostics, options) => parseDelimited(input, diagnostics, options.columnMapping, createTimestampReader(options)),
+  pidstat: parsePidstat,
+  top: parseTop,
+  ps: parsePs,
+  sar: parseSar,
+};
+
+type TableFormat = Exclude<LogFormat, 'jsonl' | 'csv'>;
+
+const LINE_PARSERS: Record<TableFormat, (diagnostics: ParseDiagnostics, options: ParseOptions) => LineParser> = {
+  pidstat: createPidstatParser,
+  top: createTopParser,
+  ps: createPsParser,
+  sar: createSarParser,
+};
+
+// Only the start of the input is inspected, which is plenty to find a banner or header row
+const DETECT_LINES = 50;
+
+// Order matters: top and pidstat tables also have PID/%CPU headers that would pass for ps,
+// and top's "load average: 0.00, 0.01" line would pass for CSV
+export const detectLogFormat = (input: string): LogFormat | null => {
+  const lines = input.trim().split('\n', DETECT_LINES);
+  if (looksLikeJsonLines(lines)) return 'jsonl';
+  if (looksLikeTop(lines)) return 'top';
+  if (looksLikePidstat(lines)) return 'pidstat';
+  if (looksLikeSar(lines)) return 'sar';
+  if (looksLikePs(lines)) return 'ps';
+  if (looksLikeDelimited(lines)) return 'csv';
+  return null;
+};
+
+const toResult = (format: LogFormat | null, totalLines: number, diagnostics: ParseDiagnostics): ParseResult => ({
+  data: diagnostics.data,
+  report: {
+    format,
+    totalLines,
+    accepted: diagnostics.data.length,
+    rejected: diagnostics.rejected.sort((a, b) => a.line - b.line),
+    coerced: diagnostics.coerced.sort((a, b) => a.line - b.line),
+  },
+});
 
-  for (const line of lines) {
-    try {
-      const cleanLine = line.trim();
-      if (!cleanLine) continue;
-      const entry = JSON.parse(cleanLine);
-      
-      // Basic validation
-      if (typeof entry.cpu_user_percent === 'number' && typeof entry.cpu_sys_percent === 'number') {
-         data.push({
-            timestamp: entry.timestamp || new Date().toISOString(),
-            pid: entry.pid || 0,
-            cpu_user_percent: parseFloat(entry.cpu_user_percent.toFixed(2)),
-            cpu_sys_percent: parseFloat(entry.cpu_sys_percent.toFixed(2)),
-            memory_percent: entry.memory_percent ? parseFloat(entry.memory_percent.toFixed(2)) : undefined,
-            command: entry.command
-         });
+const countNonEmptyLines = (text: string) => text.split('\n').filter(line => line.trim()).length;
+
+export const parseLogData = (
+  input: string,
+  format: LogFormat | null = detectLogFormat(input),
+  options: ParseOptions = {}
+): ParseResult => {
+  const diagnostics = createParseDiagnostics();
+  PARSERS[format ?? 'jsonl'](input, diagnostics, options);
+  return toResult(format, countNonEmptyLines(input), diagnostics);
+};
+
+export interface ChunkedParser {
+  push: (text: string) => void;
+  finish: () => ParseResult;
+  accepted: () => number;
+}
+
+// Finds row boundaries in text that arrives in pieces. Only each new piece is scanned, with the
+// CSV quote state carried along, so a long quoted field or line isn't rescanned on every push.
+// CSV newlines inside quoted fields don't count.
+const createRowScanner = (quoteAware: boolean) => {
+  let scanned = 0; // Length of the text seen so far
+  let inQuotes = false;
+  let boundary = 0;
+  return {
+    // Index just past the last row boundary once `piece` is appended to the text seen so far
+    append: (piece: string) => {
+      for (let i = 0; i < piece.length; i++) {
+        const ch = piece[i];
+        if (quoteAware && ch === '"') inQuotes = !inQuotes;
+        else if (ch === '\n' && !inQuotes) boundary = scanned + i + 1;
+      }
+      scanned += piece.length;
+      return boundary;
+    },
+    // The first `count` characters were parsed and dropped from the text
+    consume: (count: number) => {
+      scanned -= count;
+      boundary -= count;
+    },
+  };
+};
+
+// Incremental variant of parseLogData for large files: feed text pieces of any size in order,
+// then call finish(). JSON lines, CSV rows and table lines are parsed as soon as they are complete;
+// the table formats (pidstat, top, ps, sar) keep their headers and clocks between pieces.
+export const createChunkedParser = (format: LogFormat, options: ParseOptions = {}): ChunkedParser => {
+  const diagnostics = createParseDiagnostics();
+  const tableParser = format === 'jsonl' || format === 'csv' ? null : LINE_PARSERS[format](diagnostics, options);
+  const scanner = createRowScanner(format === 'csv');
+  let pending = '';
+  let linesSeen = 0; // Lines fully consumed so far
+  let totalLines = 0;
+  let csvHeader: string | null = null;
+  let csvMapping = options.columnMapping;
+  let csvUnmapped = false; // Reported once for the header rather than once per block
+  const readTimestamp = createTimestampReader(options); // Shared so times of day keep counting days across blocks
+
+  const parseBlock = (block: string) => {
+    const blockLines = block.split('\n');
+    // A complete block ends with '\n', which leaves an empty last element
+    const lineCount = block.endsWith('\n') ? blockLines.length - 1 : blockLines.length;
+    totalLines += countNonEmptyLines(block);
+
+    if (tableParser) {
+      blockLines.slice(0, lineCount).forEach(tableParser.line);
+    } else if (format === 'jsonl') {
+      diagnostics.lineOffset = linesSeen;
+      parseJsonLines(block, diagnostics, readTimestamp);
+    } else if (!csvUnmapped) {
+      let body = block;
+      let bodyStart = linesSeen; // Lines before the first body line
+      if (csvHeader === null) {
+        const headerIndex = blockLines.findIndex(line => line.trim());
+        if (headerIndex === -1) {
+          linesSeen += lineCount;
+          return;
+        }
+        csvHeader = blockLines[headerIndex].replace(/\r$/, '');
+        csvMapping = csvMapping ?? guessColumnMapping(readDelimited(csvHeader).headers);
+        csvUnmapped = REQUIRED_FIELDS.some(field => !csvMapping![field]);
+        body = blockLines.slice(headerIndex + 1).join('\n');
+        bodyStart += headerIndex + 1;
       }
-    } catch (e) {
-      console.warn("Skipping invalid log line:", line);
+      // Re-attach the header so each block parses on its own; it sits on line 1 of the block
+      diagnostics.lineOffset = bodyStart - 1;
+      parseDelimited(`${csvHeader}\n${body}`, diagnostics, csvMapping, readTimestamp);
     }
-  }
-  return data;
+    linesSeen += lineCount;
+  };
+
+  return {
+    push: (text) => {
+      pending += text;
+      const boundary = scanner.append(text);
+      if (boundary === 0) return;
+      parseBlock(pending.slice(0, boundary));
+      pending = pending.slice(boundary);
+      scanner.consume(boundary);
+    },
+    finish: () => {
+      if (pending) parseBlock(pending);
+      pending = '';
+      tableParser?.finish();
+      return toResult(format, totalLines, diagnostics);
+    },
+    accepted: () => diagnostics.data.length,
+  };
 };
 
 export const generateMockData = (): CpuLogEntry[] => {
@@ -0,0 +1,52 @@
+import { CpuLogEntry, TreeMemberSummary } from '../types';
+
+export const isTreeMemberSample = (d: CpuLogEntry) => d.tree_root !== undefined;
+
+export const treeMemberSamples = (data: CpuLogEntry[]) => data.filter(isTreeMemberSample);
+
+// Members are only sampled while alive, so averages are taken over every aggregate sample in
+// the window; a child that ran for a tenth of it at 100% averages 10%. The share is of the
+// tree's whole CPU, including children that exited between samples.
+export const summarizeTreeMembers = (members: CpuLogEntry[], aggregates: CpuLogEntry[]): TreeMemberSummary[] => {
+  if (aggregates.length === 0) return [];
+  const byProcess = new Map<string, TreeMemberSummary & { samples: number }>();
+  members.forEach(d => {
+    const total = d.cpu_user_percent + d.cpu_sys_percent;
+    // PIDs get reused by short-lived children, so a changed command starts a new row
+    const key = `${d.pid}:${d.command ?? ''}`;
+    const acc = byProcess.get(key) ?? {
+      pid: d.pid,
+      ppid: d.ppid,
+      command: d.command || `${d.pid}`,
+      avgUser: 0,
+      avgSys: 0,
+      avgTotal: 0,
+      peakTotal: 0,
+      cpuShare: 0,
+      firstSeen: d.timestamp,
+      lastSeen: d.timestamp,
+      samples: 0,
+    };
+    acc.avgUser += d.cpu_user_percent;
+    acc.avgSys += d.cpu_sys_percent;
+    acc.peakTotal = Math.max(acc.peakTotal, total);
+    acc.lastSeen = d.timestamp;
+    acc.samples++;
+    byProcess.set(key, acc);
+  });
+
+  const treeTotal = aggregates.reduce((sum, d) => sum + d.cpu_user_percent + d.cpu_sys_percent, 0);
+  return [...byProcess.values()]
+    .map(({ samples, ...m }) => ({
+      ...m,
+      avgUser: m.avgUser / aggregates.length,
+      avgSys: m.avgSys / aggregates.length,
+      avgTotal: (m.avgUser + m.avgSys) / aggregates.length,
+      cpuShare: treeTotal > 0 ? (m.avgUser + m.avgSys) / treeTotal : 0,
+    }))
+    .sort((a, b) => b.avgTotal - a.avgTotal);
+};
+
+// Average CPU of children that exited between samples, over the aggregate samples in the window
+export const averageExitedCpu = (aggregates: CpuLogEntry[]) =>
+  aggregates.length === 0 ? 0 : aggregates.reduce((sum, d) => sum + (d.exited_cpu_percent ?? 0), 0) / aggregates.length;
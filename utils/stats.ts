@@ -0,0 +1,103 @@
+import { CpuLogEntry, DistributionSummary, UsageSummary } from '../types';
+import { findSamplingBreaks, medianIntervalSeconds } from './dataQuality';
+
+// Nearest-rank percentile of an ascending array
+export const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx];
+};
+
+// Mean weighted by the seconds each value stands for; a plain mean without weights or when they sum to zero
+export const weightedMean = (values: number[], weights?: number[]) => {
+  const totalWeight = weights ? weights.reduce((s, w) => s + w, 0) : 0;
+  if (!weights || totalWeight <= 0) return values.reduce((s, v) => s + v, 0) / values.length;
+  return values.reduce((s, v, i) => s + v * weights[i], 0) / totalWeight;
+};
+
+export interface MetricSummary {
+  avg: number;
+  p95: number;
+  peak: number;
+}
+
+export const summarizeMetric = (values: number[], weights?: number[]): MetricSummary => {
+  if (values.length === 0) return { avg: 0, p95: 0, peak: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    avg: weightedMean(values, weights),
+    p95: percentile(sorted, 95),
+    peak: sorted[sorted.length - 1],
+  };
+};
+
+export const summarizeDistribution = (values: number[], weights?: number[]): DistributionSummary => {
+  if (values.length === 0) return { avg: 0, p50: 0, p90: 0, p95: 0, p99: 0, peak: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    avg: weightedMean(values, weights),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    peak: sorted[sorted.length - 1],
+  };
+};
+
+// Seconds each sample stands for, for samples in time order. A reading covers the interval since
+// the previous one, so the first sample, which has no previous, is given the median interval. So is
+// the first sample after a gap or restart, rather than the unobserved time before it, and a
+// duplicate timestamp stands for no time at all.
+export const sampleDurations = (data: CpuLogEntry[]): number[] => {
+  const times = data.map(d => new Date(d.timestamp).getTime());
+  const median = medianIntervalSeconds(times);
+  const breaks = new Set(findSamplingBreaks(data, median).map(b => b.index));
+  return times.map((t, i) => {
+    if (i === 0) return median;
+    const seconds = Math.max(0, (t - times[i - 1]) / 1000);
+    return breaks.has(i) ? Math.min(seconds, median) : seconds;
+  });
+};
+
+export const summarizeUsage = (data: CpuLogEntry[], cpuThreshold: number): UsageSummary => {
+  const totals = data.map(d => d.cpu_user_percent + d.cpu_sys_percent);
+  const durations = sampleDurations(data);
+  const windowSeconds = durations.reduce((s, v) => s + v, 0);
+  const secondsAboveThreshold = durations.reduce((s, v, i) => (totals[i] > cpuThreshold ? s + v : s), 0);
+  const withMemory = data.map((d, i) => i).filter(i => data[i].memory_percent !== undefined);
+  return {
+    samples: data.length,
+    windowSeconds,
+    cpuSeconds: durations.reduce((s, v, i) => s + (totals[i] / 100) * v, 0),
+    secondsAboveThreshold,
+    shareAboveThreshold: windowSeconds > 0 ? secondsAboveThreshold / windowSeconds : 0,
+    user: summarizeDistribution(data.map(d => d.cpu_user_percent), durations),
+    sys: summarizeDistribution(data.map(d => d.cpu_sys_percent), durations),
+    total: summarizeDistribution(totals, durations),
+    memory: withMemory.length > 0
+      ? summarizeDistribution(withMemory.map(i => data[i].memory_percent!), withMemory.map(i => durations[i]))
+      : null,
+  };
+};
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+  share: number; // 0-1 of all values
+  cumulative: number; // 0-1 of values up to `to`
+}
+
+// `binCount` equal-width bins from 0 up to the largest value (at least `minMax`)
+export const histogram = (values: number[], binCount: number, minMax = 0): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const max = Math.max(minMax, values.reduce((m, v) => Math.max(m, v), 0));
+  const width = max / binCount || 1;
+  const counts = new Array(binCount).fill(0);
+  values.forEach(v => { counts[Math.min(binCount - 1, Math.max(0, Math.floor(v / width)))]++; });
+  let running = 0;
+  return counts.map((count, i) => {
+    running += count;
+    return { from: i * width, to: (i + 1) * width, count, share: count / values.length, cumulative: running / values.length };
+  });
+};
@@ -0,0 +1,102 @@
+import { CpuLogEntry, ThreadSummary } from '../types';
+import { isTreeMemberSample } from './processTree';
+
+export const isThreadSample = (d: CpuLogEntry) => d.tid !== undefined;
+
+const isDetailSample = (d: CpuLogEntry) => isThreadSample(d) || isTreeMemberSample(d);
+
+// Thread and tree member samples travel in the same dataset as their process; everything that
+// works on process-level CPU (stats, alerts, anomalies, charts) uses only the process samples.
+export const processSamples = (data: CpuLogEntry[]) => (data.some(isDetailSample) ? data.filter(d => !isDetailSample(d)) : data);
+
+export const threadSamples = (data: CpuLogEntry[]) => data.filter(isThreadSample);
+
+export const OTHER_THREADS_KEY = 'other';
+
+// Per-thread averages over the window. Threads are only recorded while busy, so averages are
+// taken over every process sample in the window, not just the ones the thread appears in.
+export const summarizeThreads = (threads: CpuLogEntry[], processSampleCount: number): ThreadSummary[] => {
+  if (processSampleCount === 0) return [];
+  const byTid = new Map<number, { name: string; user: number; sys: number; peak: number; active: number }>();
+  threads.forEach(d => {
+    const total = d.cpu_user_percent + d.cpu_sys_percent;
+    const acc = byTid.get(d.tid!) ?? { name: '', user: 0, sys: 0, peak: 0, active: 0 };
+    acc.name = d.thread_name || acc.name;
+    acc.user += d.cpu_user_percent;
+    acc.sys += d.cpu_sys_percent;
+    acc.peak = Math.max(acc.peak, total);
+    if (total > 0) acc.active++;
+    byTid.set(d.tid!, acc);
+  });
+
+  const grandTotal = [...byTid.values()].reduce((sum, t) => sum + t.user + t.sys, 0);
+  return [...byTid.entries()]
+    .map(([tid, t]) => ({
+      tid,
+      name: t.name || `${tid}`,
+      avgUser: t.user / processSampleCount,
+      avgSys: t.sys / processSampleCount,
+      avgTotal: (t.user + t.sys) / processSampleCount,
+      peakTotal: t.peak,
+      activeShare: Math.min(1, t.active / processSampleCount),
+      cpuShare: grandTotal > 0 ? (t.user + t.sys) / grandTotal : 0,
+    }))
+    .sort((a, b) => b.avgTotal - a.avgTotal);
+};
+
+export interface ThreadSeriesKey {
+  key: string;
+  label: string;
+}
+
+export interface ThreadSeries {
+  keys: ThreadSeriesKey[];
+  points: ({ timestamp: string } & Record<string, number | string>)[];
+}
+
+// Stacked per-thread CPU for the top `topCount` threads plus an "other" band. Many series
+// don't suit LTTB, so the window is split into at most `maxPoints` equal time buckets and each
+// thread's CPU is averaged over the process samples in its bucket.
+export const buildThreadSeries = (
+  process: CpuLogEntry[],
+  threads: CpuLogEntry[],
+  summaries: ThreadSummary[],
+  topCount: number,
+  maxPoints: number
+): ThreadSeries => {
+  if (process.length === 0) return { keys: [], points: [] };
+  const top = summaries.slice(0, topCount);
+  const keyFor = new Map(top.map(t => [t.tid, `t${t.tid}`]));
+  const keys: ThreadSeriesKey[] = top.map(t => ({ key: `t${t.tid}`, label: `${t.name} (${t.tid})` }));
+  if (summaries.length > top.length) keys.push({ key: OTHER_THREADS_KEY, label: `Other ${summaries.length - top.length} threads` });
+
+  const start = new Date(process[0].timestamp).getTime();
+  const span = new Date(process[process.length - 1].timestamp).getTime() - start;
+  const bucketCount = Math.max(1, Math.min(maxPoints, process.length));
+  const bucketOf = (ts: string) => {
+    if (span <= 0) return 0;
+    const i = Math.floor(((new Date(ts).getTime() - start) / span) * bucketCount);
+    return Math.min(bucketCount - 1, Math.max(0, i));
+  };
+
+  const buckets = Array.from({ length: bucketCount }, () => ({ timestamp: '', samples: 0, sums: {} as Record<string, number> }));
+  process.forEach(d => {
+    const bucket = buckets[bucketOf(d.timestamp)];
+    if (bucket.samples === 0) bucket.timestamp = d.timestamp;
+    bucket.samples++;
+  });
+  threads.forEach(d => {
+    const key = keyFor.get(d.tid!) ?? OTHER_THREADS_KEY;
+    const sums = buckets[bucketOf(d.timestamp)].sums;
+    sums[key] = (sums[key] ?? 0) + d.cpu_user_percent + d.cpu_sys_percent;
+  });
+
+  const points = buckets
+    .filter(b => b.samples > 0)
+    .map(b => {
+      const point: { timestamp: string } & Record<string, number | string> = { timestamp: b.timestamp };
+      keys.forEach(({ key }) => { point[key] = parseFloat(((b.sums[key] ?? 0) / b.samples).toFixed(2)); });
+      return point;
+    });
+  return { keys, points };
+};
@@ -0,0 +1,154 @@
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+// Time zones are IANA names such as 'UTC' or 'Europe/Berlin', or 'local' for the browser's own zone
+export const LOCAL_TIME_ZONE = 'local';
+
+export const isValidTimeZone = (zone: string) => {
+  if (zone === LOCAL_TIME_ZONE) return true;
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Value for the `timeZone` option of Intl and toLocale*String
+export const intlTimeZone = (zone: string) => (zone === LOCAL_TIME_ZONE ? undefined : zone);
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar date and time of day that `date` shows on a clock in `zone`
+export const wallClockOf = (date: Date, zone: string): WallClock => {
+  if (zone === LOCAL_TIME_ZONE) {
+    return {
+      year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(),
+      hour: date.getHours(), minute: date.getMinutes(), second: date.getSeconds(), millisecond: date.getMilliseconds(),
+    };
+  }
+  let formatter = partFormatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    partFormatters.set(zone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year), month: Number(parts.month), day: Number(parts.day),
+    hour: Number(parts.hour), minute: Number(parts.minute), second: Number(parts.second), millisecond: date.getMilliseconds(),
+  };
+};
+
+const utcOfWallClock = (c: WallClock) => Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second, c.millisecond);
+
+// Minutes `zone` is ahead of UTC at `date`
+export const zoneOffsetMinutes = (date: Date, zone: string) =>
+  zone === LOCAL_TIME_ZONE ? -date.getTimezoneOffset() : Math.round((utcOfWallClock(wallClockOf(date, zone)) - date.getTime()) / 60000);
+
+// The instant a clock in `zone` shows `clock`. Times skipped by a DST change resolve to the later offset.
+export const fromWallClock = (clock: WallClock, zone: string): Date => {
+  if (zone === LOCAL_TIME_ZONE) {
+    return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second, clock.millisecond);
+  }
+  const guess = utcOfWallClock(clock);
+  const first = guess - zoneOffsetMinutes(new Date(guess), zone) * 60000;
+  const offset = zoneOffsetMinutes(new Date(first), zone);
+  const second = guess - offset * 60000;
+  // `second` only fails to round-trip when the clock time doesn't exist (a DST gap)
+  return new Date(zoneOffsetMinutes(new Date(second), zone) === offset ? second : first);
+};
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+// ISO 8601 with milliseconds and the zone's UTC offset, e.g. 2024-05-01T10:00:00.000-04:00
+export const formatZonedTimestamp = (date: Date, zone: string): string => {
+  const c = wallClockOf(date, zone);
+  return `${c.year}-${pad(c.month)}-${pad(c.day)}T${pad(c.hour)}:${pad(c.minute)}:${pad(c.second)}.${pad(c.millisecond, 3)}` +
+    formatOffset(zoneOffsetMinutes(date, zone));
+};
+
+// What the collector writes: local time with its UTC offset, so captures read the same in any zone
+export const formatLocalTimestamp = (date: Date): string => formatZonedTimestamp(date, LOCAL_TIME_ZONE);
+
+const DATE_TIME = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME_OF_DAY = /^(\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(?:\s*(AM|PM))?$/i;
+const HAS_ZONE = /\b(UTC|GMT)\b|\dZ\b|[+-]\d{2}:?\d{2}\s*$/i;
+
+export const fractionToMs = (fraction: string | undefined) => (fraction ? Math.round(parseFloat(`0.${fraction}`) * 1000) : 0);
+
+// Parses "2024-05-01T10:00:05" or "2024-05-01 10:00" (no offset) as clock readings
+export const parseWallClock = (value: string): WallClock | null => {
+  const m = value.trim().match(DATE_TIME);
+  if (!m || m[8]) return null;
+  return {
+    year: Number(m[1]), month: Number(m[2]), day: Number(m[3]),
+    hour: Number(m[4] ?? 0), minute: Number(m[5] ?? 0), second: Number(m[6] ?? 0), millisecond: fractionToMs(m[7]),
+  };
+};
+
+// Epoch seconds, milliseconds or microseconds (journald), told apart by magnitude
+export const epochToDate = (value: number) => new Date(value < 1e11 ? value * 1000 : value < 1e14 ? value : value / 1000);
+
+export type TimeOfDayResolver = (time: string, meridiem?: string) => string | null;
+
+// Reads any timestamp a log may carry and returns it as ISO 8601 with an offset, or null.
+// Values with an offset or an epoch are exact; dates and times without one are read on a clock in
+// `zone`, and bare times of day are passed to `resolveTimeOfDay`, which supplies the date.
+export const normalizeTimestamp = (value: string | number, zone = LOCAL_TIME_ZONE, resolveTimeOfDay?: TimeOfDayResolver): string | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? formatZonedTimestamp(epochToDate(value), zone) : null;
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return formatZonedTimestamp(epochToDate(Number(text)), zone);
+
+  const m = text.match(DATE_TIME);
+  if (m) {
+    if (!m[8]) return formatZonedTimestamp(fromWallClock(parseWallClock(text)!, zone), zone);
+    const offset = m[8].toUpperCase() === 'Z' ? 'Z' : m[8].replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2');
+    const iso = `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}T${pad(Number(m[4] ?? 0))}:${m[5] ?? '00'}:${m[6] ?? '00'}.${pad(fractionToMs(m[7]), 3)}${offset}`;
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? null : formatZonedTimestamp(date, zone);
+  }
+
+  const time = text.match(TIME_OF_DAY);
+  if (time) return resolveTimeOfDay ? resolveTimeOfDay(time[1], time[2]) : null;
+
+  // Anything else Date understands, e.g. `date` output; without a zone in the text it is a clock reading
+  const date = new Date(text.replace(/\s+/g, ' '));
+  if (isNaN(date.getTime())) return null;
+  return formatZonedTimestamp(HAS_ZONE.test(text) ? date : fromWallClock(wallClockOf(date, LOCAL_TIME_ZONE), zone), zone);
+};
+
+const TIME_LABEL_OPTIONS: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', second: '2-digit' };
+
+// Chart axis and tooltip label
+export const formatTimeLabel = (ts: string, zone: string) =>
+  new Date(ts).toLocaleTimeString([], { ...TIME_LABEL_OPTIONS, timeZone: intlTimeZone(zone) });
+
+export const formatDateTime = (ts: string, zone: string) => new Date(ts).toLocaleString([], { timeZone: intlTimeZone(zone) });
+
+// Short name for a zone setting, e.g. "UTC" or "Local (Europe/Berlin)"
+export const describeTimeZone = (zone: string) =>
+  zone === LOCAL_TIME_ZONE ? `Local (${Intl.DateTimeFormat().resolvedOptions().timeZone})` : zone;
+
+// Compact duration for tables, e.g. "45s", "3m 20s", "2h 5m"
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
@@ -0,0 +1,85 @@
+import { CpuLogEntry, CpuScale } from '../types';
+import { entriesToCsv } from './formats/csv';
+import { parseLogData } from './parser';
+import { isValidTimeZone } from './time';
+
+// What a dashboard link restores. Only fields that are present override the defaults.
+export interface DashboardLinkState {
+  filterStart?: string;
+  filterEnd?: string;
+  cpuThreshold?: number; // Per core, like the samples
+  cpuScale?: CpuScale;
+  timeZone?: string; // Display zone the filters are read in
+  sessionId?: string; // Library session in this browser's IndexedDB
+  data?: string; // Compressed CSV of the samples, for links opened on other machines
+}
+
+// Embedded samples make links long; past this many characters the link is offered without them
+export const MAX_EMBEDDED_DATA_CHARS = 16000;
+
+const KEYS = { filterStart: 'start', filterEnd: 'end', cpuThreshold: 'threshold', cpuScale: 'scale', timeZone: 'tz', sessionId: 'session', data: 'data' } as const;
+
+export const parseLinkState = (hash: string): DashboardLinkState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const threshold = Number(params.get(KEYS.cpuThreshold));
+  const scale = params.get(KEYS.cpuScale);
+  const timeZone = params.get(KEYS.timeZone);
+  return {
+    filterStart: params.get(KEYS.filterStart) ?? undefined,
+    filterEnd: params.get(KEYS.filterEnd) ?? undefined,
+    // Multi-core processes can warrant thresholds above 100% of one core
+    cpuThreshold: threshold >= 1 && Number.isFinite(threshold) ? threshold : undefined,
+    cpuScale: scale === 'core' || scale === 'machine' ? scale : undefined,
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined,
+    sessionId: params.get(KEYS.sessionId) ?? undefined,
+    data: params.get(KEYS.data) ?? undefined,
+  };
+};
+
+export const formatLinkState = (state: DashboardLinkState): string => {
+  const params = new URLSearchParams();
+  (Object.keys(KEYS) as (keyof DashboardLinkState)[]).forEach(key => {
+    const value = state[key];
+    if (value !== undefined && value !== '') params.set(KEYS[key], String(value));
+  });
+  const query = params.toString();
+  return query ? `#${query}` : '';
+};
+
+export const readLinkState = () => parseLinkState(window.location.hash);
+
+// Filter changes push history entries so the back button steps through them; everything else replaces
+export const writeLinkState = (state: DashboardLinkState, mode: 'push' | 'replace') => {
+  const hash = formatLinkState(state);
+  if (hash === window.location.hash) return;
+  const url = `${window.location.pathname}${window.location.search}${hash}`;
+  if (mode === 'push') history.pushState(null, '', url);
+  else history.replaceState(null, '', url);
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+// Samples travel as deflated CSV, which keeps a few hundred samples well under typical URL limits
+export const encodeLinkData = async (data: CpuLogEntry[]): Promise<string> => {
+  const csv = new TextEncoder().encode(entriesToCsv(data));
+  return toBase64Url(await pipeThrough(csv, new CompressionStream('deflate-raw')));
+};
+
+export const decodeLinkData = async (encoded: string): Promise<CpuLogEntry[]> => {
+  const csv = new TextDecoder().decode(await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+  return parseLogData(csv, 'csv').data;
+};
@@ -0,0 +1,40 @@
+import { formatZonedTimestamp, fromWallClock, LOCAL_TIME_ZONE, parseWallClock } from './time';
+
+// A time range as held by the filter inputs: datetime-local values on a clock in the display zone
+export interface ZoomRange {
+  start: string;
+  end: string;
+}
+
+// Undo steps kept; older zooms are dropped
+export const MAX_ZOOM_HISTORY = 50;
+
+// datetime-local value with second precision, e.g. 2024-05-01T10:00:05
+export const toFilterValue = (ts: string, zone = LOCAL_TIME_ZONE) => {
+  const date = new Date(ts);
+  return isNaN(date.getTime()) ? ts.substring(0, 19) : formatZonedTimestamp(date, zone).substring(0, 19);
+};
+
+const filterInstant = (value: string, zone: string) => {
+  const clock = parseWallClock(value);
+  return clock ? fromWallClock(clock, zone).getTime() : new Date(value).getTime();
+};
+
+// The same instant on a clock in another zone, for when the display zone changes
+export const convertFilterValue = (value: string, from: string, to: string) =>
+  value ? toFilterValue(new Date(filterInstant(value, from)).toISOString(), to) : value;
+
+// Epoch ms bounds of the filters. The end covers the whole minute or second it names, so a range
+// ending at 10:00:05 includes the sample taken at 10:00:05.400.
+export const filterBounds = (filterStart: string, filterEnd: string, zone = LOCAL_TIME_ZONE) => {
+  const startTs = filterStart ? filterInstant(filterStart, zone) : -Infinity;
+  const precision = filterEnd.length === 16 ? 60000 : filterEnd.length === 19 ? 1000 : 1;
+  const endTs = filterEnd ? filterInstant(filterEnd, zone) + precision - 1 : Infinity;
+  return { startTs, endTs };
+};
+
+export const pushZoomHistory = (history: ZoomRange[], range: ZoomRange) => {
+  const last = history[history.length - 1];
+  if (last && last.start === range.start && last.end === range.end) return history;
+  return [...history, range].slice(-MAX_ZOOM_HISTORY);
+};
@@ -1,15 +1,18 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { processStreamPlugin } from './collector/streamPlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // /api/stream samples any PID on this machine without authentication, so only listen on
+        // other interfaces when asked to (DEV_HOST=0.0.0.0 or `npm run dev -- --host`)
+        host: env.DEV_HOST || 'localhost',
       },
-      plugins: [react()],
+      plugins: [react(), processStreamPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,37 @@
+import { createChunkedParser } from '../utils/parser';
+import { openTextStream } from '../utils/fileStream';
+import { ParseWorkerRequest, ParseWorkerMessage } from '../services/importService';
+
+// Runs off the main thread so multi-hundred-megabyte logs don't freeze the tab
+const ctx = self as unknown as Worker;
+
+const PROGRESS_INTERVAL_MS = 100;
+
+ctx.onmessage = async (e: MessageEvent<ParseWorkerRequest>) => {
+  const { file, format, options } = e.data;
+  const post = (message: ParseWorkerMessage) => ctx.postMessage(message);
+
+  try {
+    const parser = createChunkedParser(format, options);
+    let bytesRead = 0;
+    let lastProgress = 0;
+    const reader = (await openTextStream(file, (count) => { bytesRead += count; })).getReader();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(value);
+
+      const now = performance.now();
+      if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        post({ type: 'progress', bytesRead, totalBytes: file.size, accepted: parser.accepted() });
+      }
+    }
+
+    post({ type: 'progress', bytesRead: file.size, totalBytes: file.size, accepted: parser.accepted() });
+    post({ type: 'done', result: parser.finish() });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to read file' });
+  }
+};